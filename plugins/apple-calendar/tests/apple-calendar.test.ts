@@ -11,7 +11,7 @@
  */
 
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
-import { aos, TEST_PREFIX } from '../../../../tests/utils/fixtures';
+import { aos, credentialsUnavailable, TEST_PREFIX } from '../../../tests/utils/fixtures';
 
 const plugin = 'apple-calendar';
 
@@ -21,7 +21,7 @@ const createdEvents: string[] = [];
 // Skip tests if no access
 let skipTests = false;
 
-describe('Apple Calendar Plugin', () => {
+describe.skipIf(credentialsUnavailable(plugin))('Apple Calendar Plugin', () => {
   beforeAll(async () => {
     // Check if Calendar access is granted
     try {
@@ -2,47 +2,23 @@
  * Brave Search Plugin Tests
  * 
  * Tests for privacy-focused web search.
- * Requires: BRAVE_API_KEY or configured credential in AgentOS.
+ * Requires: BRAVE_API_KEY (env or tests/.credentials.env).
  * 
  * Coverage:
  * - webpage.search (web search)
  */
 
-import { describe, it, expect, beforeAll } from 'vitest';
-import { aos } from '../../../../tests/utils/fixtures';
+import { describe, it, expect } from 'vitest';
+import { aos, credentialsUnavailable } from '../../../tests/utils/fixtures';
 
 const plugin = 'brave';
 
-// Skip tests if no credentials configured
-let skipTests = false;
-
-describe('Brave Search Plugin', () => {
-  beforeAll(async () => {
-    // Check if Brave is configured by trying a simple search
-    try {
-      await aos().call('UsePlugin', {
-        plugin,
-        tool: 'webpage.search',
-        params: { query: 'test', limit: 1 },
-      });
-    } catch (e: unknown) {
-      const error = e as Error;
-      if (error.message?.includes('No credentials configured') || error.message?.includes('Credential not found')) {
-        console.log('  ⏭ Skipping Brave tests: no credentials configured');
-        skipTests = true;
-      } else {
-        throw e;
-      }
-    }
-  });
-
+describe.skipIf(credentialsUnavailable(plugin))('Brave Search Plugin', () => {
   // ===========================================================================
   // webpage.search
   // ===========================================================================
   describe('webpage.search', () => {
     it('returns an array of search results', async () => {
-      if (skipTests) return;
-      
       const results = await aos().call('UsePlugin', {
         plugin,
         tool: 'webpage.search',
@@ -54,8 +30,6 @@ describe('Brave Search Plugin', () => {
     });
 
     it('results have required fields', async () => {
-      if (skipTests) return;
-      
       const results = await aos().call('UsePlugin', {
         plugin,
         tool: 'webpage.search',
@@ -80,8 +54,6 @@ describe('Brave Search Plugin', () => {
     });
 
     it('respects limit parameter', async () => {
-      if (skipTests) return;
-      
       const results = await aos().call('UsePlugin', {
         plugin,
         tool: 'webpage.search',
@@ -2,48 +2,24 @@
  * Exa Plugin Tests
  * 
  * Tests for semantic web search and content extraction.
- * Requires: EXA_API_KEY or configured credential in AgentOS.
+ * Requires: EXA_API_KEY (env or tests/.credentials.env).
  * 
  * Coverage:
  * - webpage.search (semantic search)
  * - webpage.read (content extraction)
  */
 
-import { describe, it, expect, beforeAll } from 'vitest';
-import { aos } from '../../../../tests/utils/fixtures';
+import { describe, it, expect } from 'vitest';
+import { aos, credentialsUnavailable } from '../../../tests/utils/fixtures';
 
 const plugin = 'exa';
 
-// Skip tests if no credentials configured
-let skipTests = false;
-
-describe('Exa Plugin', () => {
-  beforeAll(async () => {
-    // Check if Exa is configured by trying a simple search
-    try {
-      await aos().call('UsePlugin', {
-        plugin,
-        tool: 'webpage.search',
-        params: { query: 'test', limit: 1 },
-      });
-    } catch (e: unknown) {
-      const error = e as Error;
-      if (error.message?.includes('Credential not found')) {
-        console.log('  ⏭ Skipping Exa tests: no credentials configured');
-        skipTests = true;
-      } else {
-        throw e;
-      }
-    }
-  });
-
+describe.skipIf(credentialsUnavailable(plugin))('Exa Plugin', () => {
   // ===========================================================================
   // webpage.search
   // ===========================================================================
   describe('webpage.search', () => {
     it('returns an array of search results', async () => {
-      if (skipTests) return;
-      
       const results = await aos().call('UsePlugin', {
         plugin,
         tool: 'webpage.search',
@@ -55,8 +31,6 @@ describe('Exa Plugin', () => {
     });
 
     it('results have all mapped fields', async () => {
-      if (skipTests) return;
-      
       const results = await aos().call('UsePlugin', {
         plugin,
         tool: 'webpage.search',
@@ -80,8 +54,6 @@ describe('Exa Plugin', () => {
     });
 
     it('respects limit parameter', async () => {
-      if (skipTests) return;
-      
       const results1 = await aos().call('UsePlugin', {
         plugin,
         tool: 'webpage.search',
@@ -100,8 +72,6 @@ describe('Exa Plugin', () => {
     });
 
     it('handles complex queries', async () => {
-      if (skipTests) return;
-      
       const results = await aos().call('UsePlugin', {
         plugin,
         tool: 'webpage.search',
@@ -117,8 +87,6 @@ describe('Exa Plugin', () => {
   // ===========================================================================
   describe('webpage.read', () => {
     it('extracts content from a URL', async () => {
-      if (skipTests) return;
-      
       const result = await aos().call('UsePlugin', {
         plugin,
         tool: 'webpage.read',
@@ -132,8 +100,6 @@ describe('Exa Plugin', () => {
     });
 
     it('returns content/text from the page', async () => {
-      if (skipTests) return;
-      
       const result = await aos().call('UsePlugin', {
         plugin,
         tool: 'webpage.read',
@@ -2,113 +2,23 @@
  * Firecrawl Plugin Tests
  * 
  * Tests for web scraping with browser rendering.
- * Requires: FIRECRAWL_API_KEY or configured credential in AgentOS.
+ * Requires: FIRECRAWL_API_KEY (env or tests/.credentials.env).
  * 
  * Coverage:
- * - webpage.search (web search)
  * - webpage.read (scrape with JS rendering)
  */
 
-import { describe, it, expect, beforeAll } from 'vitest';
-import { aos } from '../../../../tests/utils/fixtures';
+import { describe, it, expect } from 'vitest';
+import { aos, credentialsUnavailable } from '../../../tests/utils/fixtures';
 
 const plugin = 'firecrawl';
 
-// Skip tests if no credentials configured
-let skipTests = false;
-
-describe('Firecrawl Plugin', () => {
-  beforeAll(async () => {
-    // Check if Firecrawl is configured by trying a simple search
-    try {
-      await aos().call('UsePlugin', {
-        plugin,
-        tool: 'webpage.search',
-        params: { query: 'test', limit: 1 },
-      });
-    } catch (e: unknown) {
-      const error = e as Error;
-      if (error.message?.includes('Credential not found')) {
-        console.log('  ⏭ Skipping Firecrawl tests: no credentials configured');
-        skipTests = true;
-      } else {
-        throw e;
-      }
-    }
-  });
-
-  // ===========================================================================
-  // webpage.search
-  // ===========================================================================
-  describe('webpage.search', () => {
-    it('returns an array of search results', async () => {
-      if (skipTests) return;
-      
-      const results = await aos().call('UsePlugin', {
-        plugin,
-        tool: 'webpage.search',
-        params: { query: 'what is react framework', limit: 3 },
-      });
-
-      expect(Array.isArray(results)).toBe(true);
-      expect((results as unknown[]).length).toBeLessThanOrEqual(3);
-    });
-
-    it('results have all mapped fields', async () => {
-      if (skipTests) return;
-      
-      const results = await aos().call('UsePlugin', {
-        plugin,
-        tool: 'webpage.search',
-        params: { query: 'typescript programming', limit: 2 },
-      }) as Array<{ url: string; title: string; snippet: string; plugin: string }>;
-
-      expect(results.length).toBeGreaterThan(0);
-      
-      for (const result of results) {
-        // Required fields from inline mapping
-        expect(result.url).toBeDefined();
-        expect(typeof result.url).toBe('string');
-        expect(result.url).toMatch(/^https?:\/\//);
-        
-        expect(result.title).toBeDefined();
-        expect(typeof result.title).toBe('string');
-        
-        // Snippet is from .description in response mapping
-        expect(result.snippet).toBeDefined();
-        
-        // Plugin field added by AgentOS
-        expect(result.plugin).toBe(plugin);
-      }
-    });
-
-    it('respects limit parameter', async () => {
-      if (skipTests) return;
-      
-      const results1 = await aos().call('UsePlugin', {
-        plugin,
-        tool: 'webpage.search',
-        params: { query: 'web development', limit: 2 },
-      }) as unknown[];
-
-      const results5 = await aos().call('UsePlugin', {
-        plugin,
-        tool: 'webpage.search',
-        params: { query: 'web development', limit: 5 },
-      }) as unknown[];
-
-      expect(results1.length).toBeLessThanOrEqual(2);
-      expect(results5.length).toBeLessThanOrEqual(5);
-    });
-  });
-
+describe.skipIf(credentialsUnavailable(plugin))('Firecrawl Plugin', () => {
   // ===========================================================================
   // webpage.read
   // ===========================================================================
   describe('webpage.read', () => {
     it('scrapes content from a URL', async () => {
-      if (skipTests) return;
-      
       const result = await aos().call('UsePlugin', {
         plugin,
         tool: 'webpage.read',
@@ -122,14 +32,13 @@ describe('Firecrawl Plugin', () => {
     });
 
     it('returns markdown content from JS-rendered page', async () => {
-      if (skipTests) return;
-      
-      // React.dev is a good test - it's a React SPA
+      // React.dev is a good test - it's a React SPA. Waiting for JS makes
+      // this much slower than other calls, so give it a longer budget.
       const result = await aos().call('UsePlugin', {
         plugin,
         tool: 'webpage.read',
-        params: { url: 'https://react.dev/' },
-      }) as { content: string; title: string };
+        params: { url: 'https://react.dev/', wait_for_js: 2000 },
+      }, { timeout: 60000 }) as { content: string; title: string };
 
       expect(result.content).toBeDefined();
       expect(typeof result.content).toBe('string');
@@ -137,11 +46,9 @@ describe('Firecrawl Plugin', () => {
       
       // Should contain React-related content
       expect(result.title.toLowerCase()).toContain('react');
-    });
+    }, 90000);
 
     it('handles Notion-like dynamic pages', async () => {
-      if (skipTests) return;
-      
       // Firecrawl is known for handling Notion pages
       const result = await aos().call('UsePlugin', {
         plugin,
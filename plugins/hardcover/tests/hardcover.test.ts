@@ -6,9 +6,9 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { aos } from '../../../../../tests/utils/fixtures';
+import { aos, credentialsUnavailable } from '../../../tests/utils/fixtures';
 
-describe('Hardcover Plugin', () => {
+describe.skipIf(credentialsUnavailable('hardcover'))('Hardcover Plugin', () => {
   describe('Configuration', () => {
     it('has readme with actions', async () => {
       const result = await aos().call('UsePlugin', {
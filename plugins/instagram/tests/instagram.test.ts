@@ -11,7 +11,7 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { aos, testContent, TEST_PREFIX } from '../../../../tests/utils/fixtures';
+import { aos, testContent, TEST_PREFIX } from '../../../tests/utils/fixtures';
 
 describe('Instagram Plugin', () => {
   // These tests are skipped until the Playwright executor and cookie auth are implemented
@@ -131,13 +131,17 @@ describe('Instagram Plugin', () => {
         execute: true
       });
 
+      // send declares no return type - check the id is there before using it
+      expect(sendResult).toHaveProperty('id');
+      const { id } = sendResult as { id: string };
+
       // Then delete it
       const result = await aos().call('UsePlugin', {
         ...baseParams,
         tool: 'delete',
         params: {
           conversation_id: 'test_thread_id',
-          message_id: sendResult.id
+          message_id: id
         },
         execute: true
       });
@@ -2,72 +2,39 @@
  * Linear Plugin Tests
  * 
  * Tests CRUD operations for the Linear plugin.
- * Requires: LINEAR_API_KEY or configured credential in AgentOS.
+ * Requires: LINEAR_API_KEY (env or tests/.credentials.env).
  * 
  * Note: Linear requires a team_id for creating issues.
  * The test will auto-discover the first available team.
  */
 
-import { describe, it, expect, beforeAll, afterAll } from 'vitest';
-import { aos, testContent, TEST_PREFIX } from '../../../../tests/utils/fixtures';
+import { describe, it, expect, beforeAll } from 'vitest';
+import { aos, credentialsUnavailable, testContent, TEST_PREFIX } from '../../../tests/utils/fixtures';
 
 const plugin = 'linear';
 const account = 'AgentOS';
-const baseParams = { plugin, account };
-
-// Track created items for cleanup
-const createdItems: Array<{ id: string }> = [];
+const baseParams = { plugin, account } as const;
 
 // Team ID discovered at runtime
 let teamId: string | undefined;
 
-// Skip tests if no credentials configured
-let skipTests = false;
-
-describe('Linear Plugin', () => {
+describe.skipIf(credentialsUnavailable(plugin))('Linear Plugin', () => {
   beforeAll(async () => {
-    try {
-      // Get the first available team for creating issues
-      const teams = await aos().call('UsePlugin', {
-        ...baseParams,
-        tool: 'get_teams',
-        params: {},
-      });
-      
-      if (teams.length > 0) {
-        teamId = teams[0].id;
-        console.log(`  Using team: ${teams[0].name || teamId}`);
-      }
-    } catch (e: any) {
-      if (e.message?.includes('Credential not found')) {
-        console.log('  ⏭ Skipping Linear tests: no credentials configured');
-        skipTests = true;
-      } else {
-        throw e;
-      }
-    }
-  });
-
-  // Clean up after tests
-  afterAll(async () => {
-    for (const item of createdItems) {
-      try {
-        await aos().call('UsePlugin', {
-          ...baseParams,
-          tool: 'task.delete',
-          params: { id: item.id },
-          execute: true,
-        });
-      } catch (e) {
-        console.warn(`  Failed to cleanup task ${item.id}:`, e);
-      }
+    // Get the first available team for creating issues
+    const teams = await aos().call('UsePlugin', {
+      ...baseParams,
+      tool: 'get_teams',
+      params: {},
+    });
+    
+    if (teams.length > 0) {
+      teamId = teams[0].id;
+      console.log(`  Using team: ${teams[0].name || teamId}`);
     }
   });
 
   describe('task.list', () => {
     it('returns an array of tasks', async () => {
-      if (skipTests) return;
-      
       const tasks = await aos().call('UsePlugin', {
         ...baseParams,
         tool: 'task.list',
@@ -78,8 +45,6 @@ describe('Linear Plugin', () => {
     });
 
     it('tasks have required schema fields', async () => {
-      if (skipTests) return;
-      
       const tasks = await aos().call('UsePlugin', {
         ...baseParams,
         tool: 'task.list',
@@ -97,8 +62,6 @@ describe('Linear Plugin', () => {
     });
 
     it('tasks have completed boolean field (entity schema compliance)', async () => {
-      if (skipTests) return;
-      
       const tasks = await aos().call('UsePlugin', {
         ...baseParams,
         tool: 'task.list',
@@ -114,8 +77,6 @@ describe('Linear Plugin', () => {
     });
 
     it('respects limit parameter', async () => {
-      if (skipTests) return;
-      
       const tasks = await aos().call('UsePlugin', {
         ...baseParams,
         tool: 'task.list',
@@ -130,7 +91,6 @@ describe('Linear Plugin', () => {
     let createdTask: any;
 
     it('can create a task', async () => {
-      if (skipTests) return;
       if (!teamId) {
         console.log('  Skipping: no team_id discovered');
         return;
@@ -152,12 +112,9 @@ describe('Linear Plugin', () => {
       expect(createdTask).toBeDefined();
       expect(createdTask.id).toBeDefined();
       expect(createdTask.source_id).toBeDefined(); // e.g., "AGE-271"
-      
-      createdItems.push({ id: createdTask.id });
     });
 
     it('can get the created task', async () => {
-      if (skipTests) return;
       if (!createdTask?.id) {
         console.log('  Skipping: no task was created');
         return;
@@ -175,7 +132,6 @@ describe('Linear Plugin', () => {
     });
 
     it('can update the task', async () => {
-      if (skipTests) return;
       if (!createdTask?.id) {
         console.log('  Skipping: no task was created');
         return;
@@ -197,7 +153,6 @@ describe('Linear Plugin', () => {
     });
 
     it('can delete the task', async () => {
-      if (skipTests) return;
       if (!createdTask?.id) {
         console.log('  Skipping: no task was created');
         return;
@@ -211,17 +166,11 @@ describe('Linear Plugin', () => {
       });
 
       expect(result).toBeDefined();
-      
-      // Remove from cleanup list
-      const idx = createdItems.findIndex(i => i.id === createdTask.id);
-      if (idx >= 0) createdItems.splice(idx, 1);
     });
   });
 
   describe('project.list', () => {
     it('can list projects', async () => {
-      if (skipTests) return;
-      
       const projects = await aos().call('UsePlugin', {
         ...baseParams,
         tool: 'project.list',
@@ -239,8 +188,6 @@ describe('Linear Plugin', () => {
 
   describe('utilities', () => {
     it('whoami returns current user', async () => {
-      if (skipTests) return;
-      
       const user = await aos().call('UsePlugin', {
         ...baseParams,
         tool: 'whoami',
@@ -253,8 +200,6 @@ describe('Linear Plugin', () => {
     });
 
     it('get_teams returns teams', async () => {
-      if (skipTests) return;
-      
       const teams = await aos().call('UsePlugin', {
         ...baseParams,
         tool: 'get_teams',
@@ -269,7 +214,6 @@ describe('Linear Plugin', () => {
     });
 
     it('get_workflow_states returns states for a team', async () => {
-      if (skipTests) return;
       if (!teamId) {
         console.log('  Skipping: no team_id discovered');
         return;
@@ -290,7 +234,6 @@ describe('Linear Plugin', () => {
     });
 
     it('get_cycles returns cycles for a team', async () => {
-      if (skipTests) return;
       if (!teamId) {
         console.log('  Skipping: no team_id discovered');
         return;
@@ -314,8 +257,6 @@ describe('Linear Plugin', () => {
     let relatedRelationId: string | undefined;
 
     it('get_relations returns relationship data', async () => {
-      if (skipTests) return;
-      
       // Get relations for any existing task
       const tasks = await aos().call('UsePlugin', {
         ...baseParams,
@@ -340,7 +281,6 @@ describe('Linear Plugin', () => {
     });
 
     it('can create two tasks for relationship testing', async () => {
-      if (skipTests) return;
       if (!teamId) {
         console.log('  Skipping: no team_id discovered');
         return;
@@ -355,7 +295,6 @@ describe('Linear Plugin', () => {
         },
         execute: true,
       });
-      createdItems.push({ id: task1.id });
 
       task2 = await aos().call('UsePlugin', {
         ...baseParams,
@@ -366,14 +305,12 @@ describe('Linear Plugin', () => {
         },
         execute: true,
       });
-      createdItems.push({ id: task2.id });
 
       expect(task1.id).toBeDefined();
       expect(task2.id).toBeDefined();
     });
 
     it('add_blocker creates blocking relationship and returns relation_id', async () => {
-      if (skipTests) return;
       if (!task1?.id || !task2?.id) {
         console.log('  Skipping: tasks not created');
         return;
@@ -392,7 +329,6 @@ describe('Linear Plugin', () => {
     });
 
     it('remove_relation removes blocking relationship', async () => {
-      if (skipTests) return;
       if (!blockerRelationId) {
         console.log('  Skipping: no blocker relation created');
         return;
@@ -409,7 +345,6 @@ describe('Linear Plugin', () => {
     });
 
     it('add_related links two issues and returns relation_id', async () => {
-      if (skipTests) return;
       if (!task1?.id || !task2?.id) {
         console.log('  Skipping: tasks not created');
         return;
@@ -428,7 +363,6 @@ describe('Linear Plugin', () => {
     });
 
     it('remove_relation removes related relationship', async () => {
-      if (skipTests) return;
       if (!relatedRelationId) {
         console.log('  Skipping: no related relation created');
         return;
@@ -445,8 +379,6 @@ describe('Linear Plugin', () => {
     });
 
     it('cleanup: delete relationship test tasks', async () => {
-      if (skipTests) return;
-      
       for (const task of [task1, task2]) {
         if (task?.id) {
           try {
@@ -456,8 +388,6 @@ describe('Linear Plugin', () => {
               params: { id: task.id },
               execute: true,
             });
-            const idx = createdItems.findIndex(i => i.id === task.id);
-            if (idx >= 0) createdItems.splice(idx, 1);
           } catch (e) {
             // Ignore cleanup errors
           }
@@ -2,7 +2,7 @@
  * Todoist Plugin Tests
  * 
  * Comprehensive tests for the Todoist plugin using API v1.
- * Requires: TODOIST_API_KEY or configured credential in AgentOS.
+ * Requires: TODOIST_API_KEY (env or tests/.credentials.env).
  * 
  * Coverage:
  * - task.list (with filters: project_id, label, parent_id)
@@ -16,60 +16,17 @@
  * - project.list, label.list
  */
 
-import { describe, it, expect, beforeAll, afterAll } from 'vitest';
-import { aos, testContent, TEST_PREFIX } from '../../../../tests/utils/fixtures';
+import { describe, it, expect } from 'vitest';
+import { aos, credentialsUnavailable, testContent, TEST_PREFIX } from '../../../tests/utils/fixtures';
 
 const plugin = 'todoist';
 
-// Track created items for cleanup
-const createdItems: Array<{ id: string; type: 'task' | 'project' }> = [];
-
-// Skip tests if no credentials configured
-let skipTests = false;
-
-describe('Todoist Plugin', () => {
-  beforeAll(async () => {
-    // Check if Todoist is configured by trying a simple list
-    try {
-      await aos().call('UsePlugin', {
-        plugin,
-        tool: 'task.list',
-        params: {},
-      });
-    } catch (e: any) {
-      if (e.message?.includes('Credential not found')) {
-        console.log('  ⏭ Skipping Todoist tests: no credentials configured');
-        skipTests = true;
-      } else {
-        throw e;
-      }
-    }
-  });
-
-  // Clean up after tests
-  afterAll(async () => {
-    // Delete tasks first (before projects)
-    for (const item of createdItems.filter(i => i.type === 'task')) {
-      try {
-        await aos().call('UsePlugin', {
-          plugin,
-          tool: 'task.delete',
-          params: { id: item.id },
-          execute: true,
-        });
-      } catch (e) {
-        // Task may already be deleted - ignore
-      }
-    }
-  });
-
+describe.skipIf(credentialsUnavailable(plugin))('Todoist Plugin', () => {
   // ===========================================================================
   // task.list
   // ===========================================================================
   describe('task.list', () => {
     it('returns an array of tasks', async () => {
-      if (skipTests) return;
-      
       const tasks = await aos().call('UsePlugin', {
         plugin,
         tool: 'task.list',
@@ -80,8 +37,6 @@ describe('Todoist Plugin', () => {
     });
 
     it('tasks have all mapped fields', async () => {
-      if (skipTests) return;
-      
       const tasks = await aos().call('UsePlugin', {
         plugin,
         tool: 'task.list',
@@ -103,8 +58,6 @@ describe('Todoist Plugin', () => {
     });
 
     it('can filter by project_id', async () => {
-      if (skipTests) return;
-      
       const projects = await aos().call('UsePlugin', {
         plugin,
         tool: 'project.list',
@@ -114,7 +67,7 @@ describe('Todoist Plugin', () => {
       
       const tasks = await aos().call('UsePlugin', {
         plugin,
-        tool: 'task.list',
+        tool: 'task.list_all',
         params: { project_id: projects[0].id },
       });
 
@@ -126,8 +79,6 @@ describe('Todoist Plugin', () => {
     });
 
     it('can filter by label', async () => {
-      if (skipTests) return;
-      
       const labels = await aos().call('UsePlugin', {
         plugin,
         tool: 'label.list',
@@ -140,7 +91,7 @@ describe('Todoist Plugin', () => {
       
       const tasks = await aos().call('UsePlugin', {
         plugin,
-        tool: 'task.list',
+        tool: 'task.list_all',
         params: { label: labels[0].name },
       });
 
@@ -153,8 +104,6 @@ describe('Todoist Plugin', () => {
   // ===========================================================================
   describe('task.filter', () => {
     it('can query tasks due today', async () => {
-      if (skipTests) return;
-      
       const tasks = await aos().call('UsePlugin', {
         plugin,
         tool: 'task.filter',
@@ -165,8 +114,6 @@ describe('Todoist Plugin', () => {
     });
 
     it('can query overdue tasks', async () => {
-      if (skipTests) return;
-      
       const tasks = await aos().call('UsePlugin', {
         plugin,
         tool: 'task.filter',
@@ -177,8 +124,6 @@ describe('Todoist Plugin', () => {
     });
 
     it('can query tasks due in next 7 days', async () => {
-      if (skipTests) return;
-      
       const tasks = await aos().call('UsePlugin', {
         plugin,
         tool: 'task.filter',
@@ -189,8 +134,6 @@ describe('Todoist Plugin', () => {
     });
 
     it('can query tasks with no due date', async () => {
-      if (skipTests) return;
-      
       const tasks = await aos().call('UsePlugin', {
         plugin,
         tool: 'task.filter',
@@ -201,8 +144,6 @@ describe('Todoist Plugin', () => {
     });
 
     it('can query high priority tasks', async () => {
-      if (skipTests) return;
-      
       const tasks = await aos().call('UsePlugin', {
         plugin,
         tool: 'task.filter',
@@ -220,8 +161,6 @@ describe('Todoist Plugin', () => {
     let createdTask: any;
 
     it('task.create - creates task with title and description', async () => {
-      if (skipTests) return;
-
       const title = testContent('task');
       
       createdTask = await aos().call('UsePlugin', {
@@ -238,12 +177,10 @@ describe('Todoist Plugin', () => {
       expect(createdTask.id).toBeDefined();
       expect(createdTask.title).toContain(TEST_PREFIX);
       expect(createdTask.description).toBe('Created by AgentOS integration test');
-      
-      createdItems.push({ id: createdTask.id, type: 'task' });
     });
 
     it('task.get - retrieves task with all fields', async () => {
-      if (skipTests || !createdTask?.id) return;
+      if (!createdTask?.id) return;
 
       const task = await aos().call('UsePlugin', {
         plugin,
@@ -259,7 +196,7 @@ describe('Todoist Plugin', () => {
     });
 
     it('task.update - updates title and description', async () => {
-      if (skipTests || !createdTask?.id) return;
+      if (!createdTask?.id) return;
 
       const newTitle = testContent('updated task');
       const newDesc = 'Updated description';
@@ -289,7 +226,7 @@ describe('Todoist Plugin', () => {
     });
 
     it('task.complete - marks task as completed', async () => {
-      if (skipTests || !createdTask?.id) return;
+      if (!createdTask?.id) return;
 
       await aos().call('UsePlugin', {
         plugin,
@@ -309,7 +246,7 @@ describe('Todoist Plugin', () => {
     });
 
     it('task.reopen - reopens completed task', async () => {
-      if (skipTests || !createdTask?.id) return;
+      if (!createdTask?.id) return;
 
       await aos().call('UsePlugin', {
         plugin,
@@ -329,7 +266,7 @@ describe('Todoist Plugin', () => {
     });
 
     it('task.delete - removes the task', async () => {
-      if (skipTests || !createdTask?.id) return;
+      if (!createdTask?.id) return;
 
       const result = await aos().call('UsePlugin', {
         plugin,
@@ -340,10 +277,6 @@ describe('Todoist Plugin', () => {
       
       // Delete returns empty success
       expect(result).toBeDefined();
-      
-      // Remove from cleanup list
-      const idx = createdItems.findIndex(i => i.id === createdTask.id);
-      if (idx >= 0) createdItems.splice(idx, 1);
     });
   });
 
@@ -352,8 +285,6 @@ describe('Todoist Plugin', () => {
   // ===========================================================================
   describe('priority', () => {
     it('can create task with priority 1 (highest/urgent)', async () => {
-      if (skipTests) return;
-
       const task = await aos().call('UsePlugin', {
         plugin,
         tool: 'task.create',
@@ -363,8 +294,6 @@ describe('Todoist Plugin', () => {
         },
         execute: true,
       });
-
-      createdItems.push({ id: task.id, type: 'task' });
       
       // Verify via task.get since create response mapping may differ
       const fetched = await aos().call('UsePlugin', {
@@ -381,12 +310,9 @@ describe('Todoist Plugin', () => {
         params: { id: task.id },
         execute: true,
       });
-      createdItems.pop();
     });
 
     it('can create task with priority 4 (lowest/normal)', async () => {
-      if (skipTests) return;
-
       const task = await aos().call('UsePlugin', {
         plugin,
         tool: 'task.create',
@@ -396,8 +322,6 @@ describe('Todoist Plugin', () => {
         },
         execute: true,
       });
-
-      createdItems.push({ id: task.id, type: 'task' });
       
       // Verify via task.get since create response mapping may differ
       const fetched = await aos().call('UsePlugin', {
@@ -414,12 +338,9 @@ describe('Todoist Plugin', () => {
         params: { id: task.id },
         execute: true,
       });
-      createdItems.pop();
     });
 
     it('default priority is 4 (lowest in AgentOS scale)', async () => {
-      if (skipTests) return;
-
       const task = await aos().call('UsePlugin', {
         plugin,
         tool: 'task.create',
@@ -428,8 +349,6 @@ describe('Todoist Plugin', () => {
         },
         execute: true,
       });
-
-      createdItems.push({ id: task.id, type: 'task' });
       
       // Todoist default is 1 (normal), which maps to AgentOS 4 (lowest) via invert:5
       // Todoist: 1=normal, 2=high, 3=higher, 4=urgent
@@ -443,12 +362,9 @@ describe('Todoist Plugin', () => {
         params: { id: task.id },
         execute: true,
       });
-      createdItems.pop();
     });
 
     it('can update priority from normal to urgent', async () => {
-      if (skipTests) return;
-
       const task = await aos().call('UsePlugin', {
         plugin,
         tool: 'task.create',
@@ -458,8 +374,6 @@ describe('Todoist Plugin', () => {
         },
         execute: true,
       });
-
-      createdItems.push({ id: task.id, type: 'task' });
       
       // Update to urgent priority (need to include title to satisfy API)
       await aos().call('UsePlugin', {
@@ -488,7 +402,6 @@ describe('Todoist Plugin', () => {
         params: { id: task.id },
         execute: true,
       });
-      createdItems.pop();
     });
   });
 
@@ -497,8 +410,6 @@ describe('Todoist Plugin', () => {
   // ===========================================================================
   describe('due dates', () => {
     it('can create task with natural language due date', async () => {
-      if (skipTests) return;
-
       const task = await aos().call('UsePlugin', {
         plugin,
         tool: 'task.create',
@@ -508,8 +419,6 @@ describe('Todoist Plugin', () => {
         },
         execute: true,
       });
-
-      createdItems.push({ id: task.id, type: 'task' });
       
       // Should have a due_date set
       expect(task.due_date).toBeDefined();
@@ -521,12 +430,9 @@ describe('Todoist Plugin', () => {
         params: { id: task.id },
         execute: true,
       });
-      createdItems.pop();
     });
 
     it('can create task with specific date', async () => {
-      if (skipTests) return;
-
       const task = await aos().call('UsePlugin', {
         plugin,
         tool: 'task.create',
@@ -536,8 +442,6 @@ describe('Todoist Plugin', () => {
         },
         execute: true,
       });
-
-      createdItems.push({ id: task.id, type: 'task' });
       
       expect(task.due_date).toBeDefined();
       
@@ -548,12 +452,9 @@ describe('Todoist Plugin', () => {
         params: { id: task.id },
         execute: true,
       });
-      createdItems.pop();
     });
 
     it('can update due date', async () => {
-      if (skipTests) return;
-
       const task = await aos().call('UsePlugin', {
         plugin,
         tool: 'task.create',
@@ -562,8 +463,6 @@ describe('Todoist Plugin', () => {
         },
         execute: true,
       });
-
-      createdItems.push({ id: task.id, type: 'task' });
       
       // Initially no due date
       expect(task.due_date).toBeUndefined();
@@ -594,7 +493,6 @@ describe('Todoist Plugin', () => {
         params: { id: task.id },
         execute: true,
       });
-      createdItems.pop();
     });
   });
 
@@ -603,8 +501,6 @@ describe('Todoist Plugin', () => {
   // ===========================================================================
   describe('labels', () => {
     it('can create task with labels', async () => {
-      if (skipTests) return;
-
       const task = await aos().call('UsePlugin', {
         plugin,
         tool: 'task.create',
@@ -614,8 +510,6 @@ describe('Todoist Plugin', () => {
         },
         execute: true,
       });
-
-      createdItems.push({ id: task.id, type: 'task' });
       
       // Should have labels
       expect(task._labels).toBeDefined();
@@ -629,12 +523,9 @@ describe('Todoist Plugin', () => {
         params: { id: task.id },
         execute: true,
       });
-      createdItems.pop();
     });
 
     it('can update task labels', async () => {
-      if (skipTests) return;
-
       const task = await aos().call('UsePlugin', {
         plugin,
         tool: 'task.create',
@@ -643,8 +534,6 @@ describe('Todoist Plugin', () => {
         },
         execute: true,
       });
-
-      createdItems.push({ id: task.id, type: 'task' });
       
       // Add labels
       await aos().call('UsePlugin', {
@@ -673,7 +562,6 @@ describe('Todoist Plugin', () => {
         params: { id: task.id },
         execute: true,
       });
-      createdItems.pop();
     });
   });
 
@@ -682,8 +570,6 @@ describe('Todoist Plugin', () => {
   // ===========================================================================
   describe('subtasks', () => {
     it('can create subtask with parent_id', async () => {
-      if (skipTests) return;
-
       // Create parent task
       const parent = await aos().call('UsePlugin', {
         plugin,
@@ -694,8 +580,6 @@ describe('Todoist Plugin', () => {
         execute: true,
       });
 
-      createdItems.push({ id: parent.id, type: 'task' });
-
       // Create subtask
       const subtask = await aos().call('UsePlugin', {
         plugin,
@@ -706,8 +590,6 @@ describe('Todoist Plugin', () => {
         },
         execute: true,
       });
-
-      createdItems.push({ id: subtask.id, type: 'task' });
       
       expect(subtask._parent_id).toBe(parent.id);
       
@@ -718,7 +600,6 @@ describe('Todoist Plugin', () => {
         params: { id: subtask.id },
         execute: true,
       });
-      createdItems.pop();
       
       await aos().call('UsePlugin', {
         plugin,
@@ -726,12 +607,9 @@ describe('Todoist Plugin', () => {
         params: { id: parent.id },
         execute: true,
       });
-      createdItems.pop();
     });
 
     it('can filter tasks by parent_id', async () => {
-      if (skipTests) return;
-
       // Create parent task
       const parent = await aos().call('UsePlugin', {
         plugin,
@@ -742,8 +620,6 @@ describe('Todoist Plugin', () => {
         execute: true,
       });
 
-      createdItems.push({ id: parent.id, type: 'task' });
-
       // Create two subtasks
       const sub1 = await aos().call('UsePlugin', {
         plugin,
@@ -754,7 +630,6 @@ describe('Todoist Plugin', () => {
         },
         execute: true,
       });
-      createdItems.push({ id: sub1.id, type: 'task' });
 
       const sub2 = await aos().call('UsePlugin', {
         plugin,
@@ -765,12 +640,11 @@ describe('Todoist Plugin', () => {
         },
         execute: true,
       });
-      createdItems.push({ id: sub2.id, type: 'task' });
 
       // Filter by parent_id
       const subtasks = await aos().call('UsePlugin', {
         plugin,
-        tool: 'task.list',
+        tool: 'task.list_all',
         params: { parent_id: parent.id },
       });
 
@@ -784,7 +658,6 @@ describe('Todoist Plugin', () => {
         params: { id: sub2.id },
         execute: true,
       });
-      createdItems.pop();
       
       await aos().call('UsePlugin', {
         plugin,
@@ -792,7 +665,6 @@ describe('Todoist Plugin', () => {
         params: { id: sub1.id },
         execute: true,
       });
-      createdItems.pop();
       
       await aos().call('UsePlugin', {
         plugin,
@@ -800,7 +672,6 @@ describe('Todoist Plugin', () => {
         params: { id: parent.id },
         execute: true,
       });
-      createdItems.pop();
     });
   });
 
@@ -809,8 +680,6 @@ describe('Todoist Plugin', () => {
   // ===========================================================================
   describe('move task via task.update', () => {
     it('can move task to different project via task.update', async () => {
-      if (skipTests) return;
-
       // Get projects to find a target
       const projects = await aos().call('UsePlugin', {
         plugin,
@@ -833,7 +702,6 @@ describe('Todoist Plugin', () => {
         execute: true,
       });
 
-      createdItems.push({ id: task.id, type: 'task' });
       expect(task._project_id).toBe(projects[0].id);
 
       // Move task by calling task.update with project_id
@@ -864,12 +732,9 @@ describe('Todoist Plugin', () => {
         params: { id: task.id },
         execute: true,
       });
-      createdItems.pop();
     });
 
     it('can move task and update other fields simultaneously', async () => {
-      if (skipTests) return;
-
       const projects = await aos().call('UsePlugin', {
         plugin,
         tool: 'project.list',
@@ -890,8 +755,6 @@ describe('Todoist Plugin', () => {
         execute: true,
       });
 
-      createdItems.push({ id: task.id, type: 'task' });
-
       // Move AND update title in one call
       const newTitle = testContent('moved and updated');
       await aos().call('UsePlugin', {
@@ -921,7 +784,6 @@ describe('Todoist Plugin', () => {
         params: { id: task.id },
         execute: true,
       });
-      createdItems.pop();
     });
   });
 
@@ -930,8 +792,6 @@ describe('Todoist Plugin', () => {
   // ===========================================================================
   describe('move_task utility', () => {
     it('can move task directly via move_task utility', async () => {
-      if (skipTests) return;
-
       const projects = await aos().call('UsePlugin', {
         plugin,
         tool: 'project.list',
@@ -952,8 +812,6 @@ describe('Todoist Plugin', () => {
         execute: true,
       });
 
-      createdItems.push({ id: task.id, type: 'task' });
-
       // Call move_task utility directly
       await aos().call('UsePlugin', {
         plugin,
@@ -980,7 +838,6 @@ describe('Todoist Plugin', () => {
         params: { id: task.id },
         execute: true,
       });
-      createdItems.pop();
     });
   });
 
@@ -989,8 +846,6 @@ describe('Todoist Plugin', () => {
   // ===========================================================================
   describe('project.list', () => {
     it('returns an array of projects with all fields', async () => {
-      if (skipTests) return;
-      
       const projects = await aos().call('UsePlugin', {
         plugin,
         tool: 'project.list',
@@ -1014,8 +869,6 @@ describe('Todoist Plugin', () => {
   // ===========================================================================
   describe('label.list', () => {
     it('returns an array of labels with all fields', async () => {
-      if (skipTests) return;
-      
       const labels = await aos().call('UsePlugin', {
         plugin,
         tool: 'label.list',
@@ -1038,8 +891,6 @@ describe('Todoist Plugin', () => {
   // ===========================================================================
   describe('complex scenarios', () => {
     it('full task lifecycle with all fields', async () => {
-      if (skipTests) return;
-
       const projects = await aos().call('UsePlugin', {
         plugin,
         tool: 'project.list',
@@ -1060,8 +911,6 @@ describe('Todoist Plugin', () => {
         execute: true,
       });
 
-      createdItems.push({ id: task.id, type: 'task' });
-
       // Verify all fields set correctly via task.get (create response mapping may differ)
       const created = await aos().call('UsePlugin', {
         plugin,
@@ -1128,7 +977,6 @@ describe('Todoist Plugin', () => {
         params: { id: task.id },
         execute: true,
       });
-      createdItems.pop();
     });
   });
 });
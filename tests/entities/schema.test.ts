@@ -5,12 +5,15 @@
  * - All entity files have valid structure
  * - Required fields are present
  * - Properties have types
+ * - Optional enum properties accept null in operation contracts
  */
 
 import { describe, it, expect } from 'vitest';
 import { readdirSync, readFileSync, existsSync, statSync } from 'fs';
 import { join, relative } from 'path';
 import { parse as parseYaml } from 'yaml';
+import { operationContract, validateContract } from '../utils/contracts';
+import { loadEntities } from '../utils/entities';
 
 const INTEGRATIONS_ROOT = join(__dirname, '../..');
 const ENTITIES_DIR = join(INTEGRATIONS_ROOT, 'entities');
@@ -88,3 +91,24 @@ describe('Entity Schema Validation', () => {
     });
   });
 });
+
+describe('Entity Contracts', () => {
+  const entities = loadEntities();
+
+  // Optional properties may be null, enums included
+  for (const entity of entities.values()) {
+    const optionalEnums = Object.entries(entity.properties)
+      .filter(([, prop]) => prop?.enum?.length && !prop.required)
+      .map(([name]) => name);
+
+    for (const name of optionalEnums) {
+      it(`${entity.id}.${name} (optional enum) accepts null`, () => {
+        const contract = operationContract(`${entity.id}.get`, entity.id, entities);
+        expect(contract, `no contract for ${entity.id}.get`).not.toBeNull();
+
+        const violations = validateContract(contract!, { [name]: null });
+        expect(violations.filter(v => v.startsWith(`/${name} `))).toEqual([]);
+      });
+    }
+  }
+});
@@ -0,0 +1,34 @@
+/**
+ * Global Test Setup
+ *
+ * Runs once per run in the main process, before any test file: asks
+ * AgentOS which plugins without a provisioned key have a credential stored
+ * in it (see utils/credentials.ts) and provides the answer to every worker,
+ * where setup.ts hands it to useStoredCredentials().
+ *
+ * Talks MCP over stdio to a short-lived AgentOS of its own, so it takes no
+ * worker's port. If that AgentOS can't start, nothing counts as stored; each
+ * test file's own connect (setup.ts) then reports why.
+ */
+
+import type { GlobalSetupContext } from 'vitest/node';
+import { AgentOS as McpAgentOS } from './utils/mcp-client';
+import { probeStoredCredentials } from './utils/credentials';
+
+declare module 'vitest' {
+  export interface ProvidedContext {
+    /** Plugins AgentOS holds a stored credential for */
+    storedCredentials: string[];
+  }
+}
+
+export default async function ({ provide }: GlobalSetupContext): Promise<void> {
+  let stored: string[] = [];
+  try {
+    stored = await probeStoredCredentials(() => McpAgentOS.connect({ timeout: 30000 }));
+    if (stored.length > 0) console.log(`🔑 Credentials stored in AgentOS: ${stored.join(', ')}`);
+  } catch (error) {
+    console.warn(`⚠ Couldn't ask AgentOS for stored credentials: ${error instanceof Error ? error.message : error}`);
+  }
+  provide('storedCredentials', stored);
+}
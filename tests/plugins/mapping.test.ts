@@ -0,0 +1,138 @@
+/**
+ * Mapping Agreement Tests
+ *
+ * utils/mapping.ts is the harness's own reading of plugin mappings, written
+ * from the expressions plugins use; it isn't AgentOS. The golden snapshots
+ * (snapshots.test.ts) are only as right as it is, so this checks it against
+ * the real thing: for each operation with a committed snapshot, fetch the
+ * upstream response directly and compare what mapResponse makes of it with
+ * what AgentOS returns for the same call.
+ *
+ * Operations run with their declared defaults. The direct request covers
+ * the executors snapshots exist for (rest, graphql) and `{{params.x}}`
+ * templates with an optional `default:`; anything else fails rather than
+ * guess.
+ *
+ * Runs against a live AgentOS with the plugin's key provisioned (see
+ * utils/credentials.ts); the direct request needs the key itself, so a
+ * key stored only in AgentOS doesn't do.
+ *
+ * Run: npx vitest run tests/plugins/mapping.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { existsSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { aos } from '../utils/fixtures';
+import { credentialEnv, credentialVar } from '../utils/credentials';
+import { mapResponse } from '../utils/mapping';
+import { loadPlugins } from '../utils/plugins';
+import type { OperationDef, PluginDefinition } from '../utils/plugins';
+
+const RAW_SUFFIX = '.raw.json';
+
+// Filter to only run specific plugin if specified
+const targetPlugin = process.env.TEST_PLUGIN;
+
+// What answers when not a live AgentOS
+const standIn = process.env.AGENTOS_SERVER === 'fixtures'
+  ? 'the fixture server'
+  : process.env.AGENTOS_CASSETTE === 'replay' ? 'cassette replay' : null;
+
+/** Operations with a snapshot of their own (task.list.raw.json, not task.list.empty) */
+function snapshotted(plugin: PluginDefinition): string[] {
+  const dir = join(plugin.dir, 'tests', 'fixtures', 'snapshots');
+  if (!existsSync(dir)) return [];
+  const names = readdirSync(dir).filter(f => f.endsWith(RAW_SUFFIX)).map(f => f.slice(0, -RAW_SUFFIX.length));
+  return names.filter(name => plugin.config.operations?.[name]).sort();
+}
+
+/** `{{params.x}}` or `{{params.x | default: v}}`; undefined when unset */
+function render(template: unknown, params: Record<string, unknown>): unknown {
+  if (typeof template !== 'string' || !template.includes('{{')) return template;
+
+  const match = template.match(/^\{\{\s*params\.(\w+)\s*(?:\|\s*default:\s*(.+?)\s*)?\}\}$/);
+  if (!match) throw new Error(`Can't render template "${template}"`);
+  const [, name, fallback] = match;
+  if (params[name] !== undefined) return params[name];
+  if (fallback === undefined) return undefined;
+  return /^-?\d+(\.\d+)?$/.test(fallback) ? Number(fallback) : fallback.replace(/^(['"])(.*)\1$/, '$2');
+}
+
+function renderAll(values: Record<string, unknown> | undefined, params: Record<string, unknown>): Record<string, unknown> {
+  const rendered: Record<string, unknown> = {};
+  for (const [key, template] of Object.entries(values || {})) {
+    const value = render(template, params);
+    if (value !== undefined && value !== null && value !== '') rendered[key] = value;
+  }
+  return rendered;
+}
+
+/** The upstream request AgentOS makes for an operation */
+function upstreamRequest(plugin: PluginDefinition, def: OperationDef, params: Record<string, unknown>): { url: string; init: RequestInit } {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  const auth = plugin.config.auth as { header?: string; prefix?: string } | null | undefined;
+  const key = credentialEnv()[credentialVar(plugin)];
+  if (auth?.header && key) headers[auth.header] = `${auth.prefix ?? ''}${key}`;
+
+  if (def.rest) {
+    const rest = def.rest as { method?: string; url: string; query?: Record<string, unknown> };
+    const query = new URLSearchParams(Object.entries(renderAll(rest.query, params)).map(([k, v]) => [k, String(v)]));
+    const search = query.toString();
+    const url = `${render(rest.url, params)}${search ? `?${search}` : ''}`;
+    return { url, init: { method: rest.method || 'GET', headers } };
+  }
+
+  if (def.graphql) {
+    const graphql = def.graphql as { query: string; variables?: Record<string, unknown> };
+    const endpoint = (plugin.config.api as { graphql_endpoint?: string } | undefined)?.graphql_endpoint;
+    if (!endpoint) throw new Error(`${plugin.id} has no api.graphql_endpoint`);
+    const body = JSON.stringify({ query: graphql.query, variables: renderAll(graphql.variables, params) });
+    return { url: endpoint, init: { method: 'POST', headers, body } };
+  }
+
+  throw new Error(`No direct request for this executor: ${Object.keys(def).join(', ')}`);
+}
+
+describe('Mapping Agreement', () => {
+  if (standIn) {
+    it.skip(`needs a live AgentOS and upstream (calls are answered by ${standIn})`, () => {});
+    return;
+  }
+
+  for (const plugin of loadPlugins()) {
+    // Skip if filtering to specific plugin
+    if (targetPlugin && plugin.id !== targetPlugin) {
+      continue;
+    }
+
+    const tools = snapshotted(plugin);
+    if (tools.length === 0) continue;
+
+    describe(plugin.id, () => {
+      for (const tool of tools) {
+        it(`${tool}: mapResponse agrees with AgentOS`, async () => {
+          if (plugin.config.auth && !credentialEnv()[credentialVar(plugin)]) {
+            console.log(`  ⏭ Skipped: ${credentialVar(plugin)} not provisioned`);
+            return;
+          }
+
+          const def = plugin.config.operations![tool];
+          const params = Object.fromEntries(
+            Object.entries(def.params || {})
+              .filter(([, param]) => param?.default !== undefined)
+              .map(([name, param]) => [name, param.default])
+          );
+
+          const { url, init } = upstreamRequest(plugin, def, params);
+          const response = await fetch(url, init);
+          expect(response.ok, `${init.method} ${url} → ${response.status}`).toBe(true);
+          const raw = await response.json();
+
+          const result = await aos().usePlugin(plugin.id, tool, params);
+          expect(mapResponse(plugin, tool, raw)).toEqual(result);
+        });
+      }
+    });
+  }
+});
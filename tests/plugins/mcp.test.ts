@@ -0,0 +1,215 @@
+/**
+ * MCP Surface Tests
+ *
+ * Verifies what AgentOS exposes over MCP matches what plugins declare:
+ * - tools/list (all pages) includes UsePlugin with a usable input schema
+ * - Every plugin's operations and utilities appear in what the server
+ *   derives (per-operation tools, or UsePlugin's per-plugin branches and
+ *   `tool` enum), each with an input schema matching its declared params
+ * - resources/list and prompts/list return well-formed entries
+ *
+ * Needs the real AgentOS binary (skipped with AGENTOS_SERVER=fixtures
+ * or AGENTOS_CASSETTE=replay, which only stand in for HTTP).
+ *
+ * Run: npx vitest run tests/plugins/mcp.test.ts
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { MCPTestClient, MCPTool } from '../utils/mcp-client';
+import { loadPlugins, OperationDef, ParamDef, UtilityDef } from '../utils/plugins';
+
+const plugins = loadPlugins();
+const offline = process.env.AGENTOS_SERVER === 'fixtures' || process.env.AGENTOS_CASSETTE === 'replay';
+
+type Schema = Record<string, any>;
+
+/** JSON Schema types a declared param type may be exposed as */
+const JSON_TYPES: Record<string, string[]> = {
+  string: ['string'],
+  integer: ['integer', 'number'],
+  number: ['number'],
+  boolean: ['boolean'],
+  array: ['array'],
+  object: ['object'],
+};
+
+/** Values a schema pins a property to (const or enum) */
+function pinned(schema: Schema | undefined): unknown[] {
+  if (!schema) return [];
+  if (schema.const !== undefined) return [schema.const];
+  return Array.isArray(schema.enum) ? schema.enum : [];
+}
+
+/**
+ * Tools the server derived for a plugin, with the params schema it exposes
+ * for each (undefined when it only names the tool). Looks at dedicated MCP
+ * tools (todoist.task.list, todoist__task.list) and at UsePlugin: branches
+ * (oneOf/anyOf) that pin `plugin` and `tool`, else its `tool` enum.
+ */
+function exposedTools(tools: MCPTool[], pluginId: string): Map<string, Schema | undefined> {
+  const exposed = new Map<string, Schema | undefined>();
+  const add = (name: string, params?: Schema) => exposed.set(name, params ?? exposed.get(name));
+
+  for (const tool of tools) {
+    for (const prefix of [`${pluginId}.`, `${pluginId}__`]) {
+      if (tool.name.startsWith(prefix)) add(tool.name.slice(prefix.length), tool.inputSchema);
+    }
+  }
+
+  const usePlugin = tools.find(t => t.name === 'UsePlugin')?.inputSchema;
+  if (!usePlugin) return exposed;
+
+  const branches = [...(usePlugin.oneOf as Schema[] ?? []), ...(usePlugin.anyOf as Schema[] ?? [])];
+  for (const branch of branches) {
+    const props = branch.properties ?? {};
+    if (!pinned(props.plugin).includes(pluginId)) continue;
+    const names = pinned(props.tool) as string[];
+    // A branch per tool carries that tool's params
+    for (const name of names) add(name, names.length === 1 ? props.params : undefined);
+  }
+  if (branches.length === 0) {
+    for (const name of pinned(usePlugin.properties?.tool) as string[]) add(name);
+  }
+  return exposed;
+}
+
+/** Where an exposed params schema disagrees with the declared params */
+function paramMismatches(declared: Record<string, ParamDef>, schema: Schema): string[] {
+  const properties: Schema = schema.properties ?? {};
+  const required: string[] = schema.required ?? [];
+  const mismatches: string[] = [];
+
+  for (const [name, def] of Object.entries(declared)) {
+    const property = properties[name];
+    if (!property) {
+      mismatches.push(`${name}: not exposed`);
+      continue;
+    }
+    const types = [property.type].flat().filter(Boolean) as string[];
+    const allowed = def.type ? JSON_TYPES[def.type] : undefined;
+    if (allowed && types.length > 0 && !types.some(t => allowed.includes(t))) {
+      mismatches.push(`${name}: declared ${def.type}, exposed ${types.join(' | ')}`);
+    }
+    const mustPass = !!def.required && def.default === undefined;
+    if (mustPass !== required.includes(name)) {
+      mismatches.push(`${name}: declared ${mustPass ? 'required' : 'optional'}, exposed ${mustPass ? 'optional' : 'required'}`);
+    }
+  }
+  for (const name of Object.keys(properties)) {
+    if (!(name in declared)) mismatches.push(`${name}: exposed but not declared`);
+  }
+  return mismatches;
+}
+
+describe.skipIf(offline)('MCP Surface', () => {
+  let mcp: MCPTestClient;
+  let tools: MCPTool[];
+
+  beforeAll(async () => {
+    mcp = new MCPTestClient();
+    await mcp.connect();
+    tools = await mcp.listAllTools();
+  });
+
+  afterAll(async () => {
+    await mcp?.disconnect();
+  });
+
+  describe('tools/list', () => {
+    it('returns tools with object input schemas', () => {
+      expect(tools.length).toBeGreaterThan(0);
+
+      for (const tool of tools) {
+        expect(typeof tool.name).toBe('string');
+        expect(tool.inputSchema?.type, `${tool.name} inputSchema`).toBe('object');
+      }
+    });
+
+    it('has unique tool names across pages', () => {
+      const names = tools.map(t => t.name);
+      expect(new Set(names).size).toBe(names.length);
+    });
+
+    it('exposes UsePlugin requiring plugin and tool', () => {
+      const usePlugin = tools.find(t => t.name === 'UsePlugin');
+      expect(usePlugin, 'UsePlugin tool').toBeDefined();
+
+      const schema = usePlugin!.inputSchema;
+      expect(schema.required).toEqual(expect.arrayContaining(['plugin', 'tool']));
+      expect(schema.properties?.plugin?.type).toBe('string');
+      expect(schema.properties?.tool?.type).toBe('string');
+      if (schema.properties?.params) {
+        expect(schema.properties.params.type).toBe('object');
+      }
+    });
+  });
+
+  describe('plugins', () => {
+    for (const plugin of plugins) {
+      const declared = Object.entries({
+        ...plugin.config.operations,
+        ...plugin.config.utilities,
+      }) as [string, OperationDef | UtilityDef][];
+
+      describe(plugin.id, () => {
+        it('is exposed with every operation and utility', () => {
+          const schema = tools.find(t => t.name === 'UsePlugin')!.inputSchema;
+
+          // When the server enumerates plugins in the schema, every plugin must be there
+          const pluginEnum = schema.properties?.plugin?.enum as string[] | undefined;
+          if (pluginEnum) {
+            expect(pluginEnum).toContain(plugin.id);
+          }
+
+          const exposed = exposedTools(tools, plugin.id);
+          expect(
+            exposed.size,
+            `AgentOS names no tools for ${plugin.id} over MCP (no per-operation tools, UsePlugin branches or tool enum)`
+          ).toBeGreaterThan(0);
+          expect([...exposed.keys()]).toEqual(expect.arrayContaining(declared.map(([name]) => name)));
+        });
+
+        for (const [name, def] of declared) {
+          it(`${name} exposes its declared params`, () => {
+            const params = exposedTools(tools, plugin.id).get(name);
+            expect(params, `AgentOS exposes no input schema for ${plugin.id} ${name}`).toBeDefined();
+            expect(paramMismatches(def.params || {}, params!)).toEqual([]);
+          });
+        }
+      });
+    }
+  });
+
+  describe('resources/list', () => {
+    it('returns resources with uri and name', async () => {
+      const resources = await mcp.listAllResources();
+
+      for (const resource of resources) {
+        expect(typeof resource.uri).toBe('string');
+        expect(typeof resource.name).toBe('string');
+      }
+    });
+
+    it('reads the first resource', async () => {
+      const [first] = await mcp.listAllResources();
+      if (!first) return;
+
+      const contents = await mcp.readResource(first.uri);
+      expect(contents.length).toBeGreaterThan(0);
+      expect(contents[0].text ?? contents[0].blob).toBeDefined();
+    });
+  });
+
+  describe('prompts/list', () => {
+    it('returns prompts with names', async () => {
+      const prompts = await mcp.listAllPrompts();
+
+      for (const prompt of prompts) {
+        expect(typeof prompt.name).toBe('string');
+        for (const arg of prompt.arguments || []) {
+          expect(typeof arg.name).toBe('string');
+        }
+      }
+    });
+  });
+});
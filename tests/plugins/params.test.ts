@@ -0,0 +1,85 @@
+/**
+ * Param Validation Tests
+ *
+ * Generated from each operation's and utility's `params` (see
+ * utils/param-cases.ts). Every tool must reject, with a structured
+ * validation error (ValidationError, code `validation`) naming the param:
+ * - each required param left out
+ * - each typed param given a value of the wrong type
+ * - each enum param given a value outside it
+ *
+ * An upstream 400 (UpstreamHttpError) or a result means AgentOS passed the
+ * bad call on. Nothing is executed, so a create that slips through only
+ * previews. The checks come before any API call, but for some plugins after
+ * the credential lookup; without credentials those cases are skipped.
+ *
+ * Runs against a live AgentOS only. The fixture server rejects bad params
+ * with checks of its own, so a pass there proves nothing about AgentOS, and
+ * replay only has the calls a recording made.
+ *
+ * Run: npx vitest run tests/plugins/params.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { aos } from '../utils/fixtures';
+import { CredentialMissingError, ValidationError } from '../utils/errors';
+import { negativeCases, ParamCase } from '../utils/param-cases';
+import { loadPlugins } from '../utils/plugins';
+
+// Filter to only run specific plugin if specified
+const targetPlugin = process.env.TEST_PLUGIN;
+
+// What answers when not a live AgentOS
+const standIn = process.env.AGENTOS_SERVER === 'fixtures'
+  ? 'the fixture server, whose param checks are its own'
+  : process.env.AGENTOS_CASSETTE === 'replay' ? 'cassette replay' : null;
+
+/** The error a call fails with (fails the test if it succeeds) */
+async function rejection(plugin: string, tool: string, testCase: ParamCase): Promise<unknown> {
+  try {
+    const result = await aos().usePlugin(plugin, tool, testCase.params);
+    return new Error(`${plugin} ${tool} accepted a call that ${testCase.description}: ${JSON.stringify(result)?.slice(0, 200)}`);
+  } catch (error: unknown) {
+    return error;
+  }
+}
+
+describe('Param Validation', () => {
+  if (standIn) {
+    it.skip(`needs a live AgentOS (calls are answered by ${standIn})`, () => {});
+    return;
+  }
+
+  for (const plugin of loadPlugins()) {
+    // Skip if filtering to specific plugin
+    if (targetPlugin && plugin.id !== targetPlugin) {
+      continue;
+    }
+
+    const tools = Object.entries({ ...plugin.config.operations, ...plugin.config.utilities })
+      .map(([tool, def]) => ({ tool, cases: negativeCases(def.params) }))
+      .filter(({ cases }) => cases.length > 0);
+    if (tools.length === 0) continue;
+
+    describe(plugin.id, () => {
+      for (const { tool, cases } of tools) {
+        describe(tool, () => {
+          for (const testCase of cases) {
+            it(`rejects a call that ${testCase.description}`, async (ctx) => {
+              const error = await rejection(plugin.id, tool, testCase);
+
+              // Validated after credentials; can't tell without them
+              if (error instanceof CredentialMissingError) {
+                console.log(`  ⏭ Skipped: ${plugin.id} not configured`);
+                ctx.skip();
+              }
+
+              expect(error).toBeInstanceOf(ValidationError);
+              expect((error as ValidationError).message).toContain(testCase.param);
+            });
+          }
+        });
+      }
+    });
+  }
+});
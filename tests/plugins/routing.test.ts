@@ -0,0 +1,76 @@
+/**
+ * URL Routing Tests
+ *
+ * Routes the sample URLs in url-corpus.yaml through every plugin's
+ * `handles.urls` / `handles_urls` patterns (see utils/url-router.ts) and
+ * checks the best candidate and what its wildcards matched. Also fails when
+ * patterns of different plugins claim the same URLs, when a declared
+ * pattern doesn't outrank the fallbacks (curl, firecrawl) that also read
+ * its URLs, or when a declared pattern has no sample URL.
+ *
+ * Static: no server or credentials needed.
+ *
+ * Run: npx vitest run tests/plugins/routing.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { compileRoutes, describeRoute, findOverlaps, UrlRouter } from '../utils/url-router';
+
+interface CorpusEntry {
+  url: string;
+  /** "plugin operation" of the best candidate, or "fallback" */
+  routes: string;
+  /** What the best candidate's `*`s match, when given */
+  wildcards?: string[];
+}
+
+const corpus = (parseYaml(readFileSync(join(__dirname, 'url-corpus.yaml'), 'utf-8')) as { urls: CorpusEntry[] }).urls;
+const routes = compileRoutes();
+const router = new UrlRouter(routes);
+
+describe('URL Routing', () => {
+  for (const { url, routes: expected, wildcards } of corpus) {
+    it(`${url} → ${expected}`, () => {
+      const candidates = router.resolve(url);
+      expect(candidates.length, `nothing routes ${url}`).toBeGreaterThan(0);
+
+      if (expected === 'fallback') {
+        const claimed = candidates.filter(c => c.source !== 'fallback').map(describeRoute);
+        expect(claimed).toEqual([]);
+        return;
+      }
+
+      const [best] = candidates;
+      expect(`${best.plugin} ${best.operation}`).toBe(expected);
+      if (best.param) expect(best.params).toEqual({ [best.param]: url });
+      if (wildcards) expect(best.wildcards).toEqual(wildcards);
+    });
+  }
+});
+
+describe('URL Pattern Validation', () => {
+  it('no two plugins claim the same URLs', () => {
+    const overlaps = findOverlaps(routes)
+      .filter(({ kind }) => kind === 'conflict')
+      .map(({ a, b }) => `${describeRoute(a)} overlaps ${describeRoute(b)}`);
+    expect(overlaps).toEqual([]);
+  });
+
+  it('declared patterns outrank the fallbacks that also read their URLs', () => {
+    const shadowed = findOverlaps(routes)
+      .filter(({ kind, a, b }) => kind === 'fallback' && a.specificity <= b.specificity)
+      .map(({ a, b }) => `${describeRoute(a)} doesn't outrank fallback ${describeRoute(b)}`);
+    expect(shadowed).toEqual([]);
+  });
+
+  it('every declared pattern has a sample URL', () => {
+    const declared = routes.filter(route => route.source !== 'fallback');
+    const untested = declared.filter(route =>
+      !corpus.some(({ url }) => router.resolve(url).some(c => c.pattern === route.pattern && c.plugin === route.plugin))
+    );
+    expect(untested.map(describeRoute), 'add URLs for these to tests/plugins/url-corpus.yaml').toEqual([]);
+  });
+});
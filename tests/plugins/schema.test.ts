@@ -143,4 +143,24 @@ describe('Schema Completeness', () => {
       ).toBe(true);
     }
   });
+
+  it('relationship mutation handlers name a utility', () => {
+    for (const pluginPath of getPlugins()) {
+      const content = readFileSync(join(PLUGINS_DIR, pluginPath, 'readme.md'), 'utf-8');
+      const frontmatter = parseFrontmatter(content);
+      const adapters = (frontmatter?.adapters || {}) as Record<string, { relationships?: Record<string, unknown> }>;
+      const utilities = (frontmatter?.utilities || {}) as Record<string, unknown>;
+
+      for (const [entity, adapter] of Object.entries(adapters)) {
+        for (const [relationship, support] of Object.entries(adapter?.relationships || {})) {
+          const mutation = (support as { mutation?: string } | null)?.mutation;
+          if (!mutation) continue;
+          expect(
+            utilities[mutation],
+            `${pluginPath} ${entity}.${relationship} routes through '${mutation}', which is not in utilities`
+          ).toBeDefined();
+        }
+      }
+    }
+  });
 });
@@ -0,0 +1,292 @@
+#!/usr/bin/env npx tsx
+/**
+ * Field Coverage Matrix
+ *
+ * For each entity, shows which of its properties every providing plugin
+ * fills in, so switching providers holds no surprises (brave fills
+ * `published_at`, curl never does):
+ *
+ *   | webpage      | brave | curl | exa |
+ *   | published_at | ✓     | —    | ✓   |
+ *
+ * Statically, a property counts as mapped when the plugin's adapter
+ * `mapping` (or an operation-level mapping override) sets it. Dynamically,
+ * sample responses show whether it actually comes back populated: raw
+ * upstream snapshots (tests/fixtures/snapshots/*.raw.json) run through the
+ * mapping (utils/mapping.ts), and cassettes recorded against AgentOS.
+ * Fixture server responses are hand-written results, so they don't count.
+ *
+ * Usage:
+ *   npm run coverage:fields                        # Markdown to stdout
+ *   npm run coverage:fields -- --html --out m.html # HTML file
+ *   npm run coverage:fields -- --entity task       # One entity
+ */
+
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { EntityDefinition, EntityProperty, loadEntities, parseReturns } from '../../utils/entities';
+import { loadPlugins, PluginDefinition } from '../../utils/plugins';
+import { mapResponse } from '../../utils/mapping';
+import type { CassetteInteraction } from '../../utils/cassette';
+
+// =============================================================================
+// Coverage
+// =============================================================================
+
+type Cell = 'populated' | 'mapped' | 'empty' | 'partial' | 'unmapped';
+
+const SYMBOLS: Record<Cell, { symbol: string; meaning: string }> = {
+  populated: { symbol: '✓', meaning: 'mapped, populated in sample responses' },
+  mapped: { symbol: '✓?', meaning: 'mapped, no sample responses to confirm' },
+  empty: { symbol: '○', meaning: 'mapped, but empty in every sample response' },
+  partial: { symbol: '◐', meaning: 'mapped by some operations only' },
+  unmapped: { symbol: '—', meaning: 'not mapped' },
+};
+
+interface EntityCoverage {
+  entity: EntityDefinition;
+  /** Property paths (nested objects flattened: author.name) */
+  fields: string[];
+  plugins: string[];
+  /** plugin → field → cell */
+  cells: Map<string, Map<string, Cell>>;
+}
+
+/** Leaf property paths of an entity (author → author.name, author.url) */
+function fieldPaths(properties: Record<string, EntityProperty>, prefix = ''): string[] {
+  return Object.entries(properties).flatMap(([name, prop]) =>
+    prop?.type === 'object' && prop.properties
+      ? fieldPaths(prop.properties, `${prefix}${name}.`)
+      : [`${prefix}${name}`]
+  );
+}
+
+/** Paths a mapping sets (dotted keys and nested objects both map into objects) */
+function mappedPaths(mapping: Record<string, unknown>, prefix = ''): string[] {
+  return Object.entries(mapping).flatMap(([key, value]) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? mappedPaths(value as Record<string, unknown>, `${prefix}${key}.`)
+      : [`${prefix}${key}`]
+  );
+}
+
+/** A field is mapped by its own path or by mapping a whole parent object */
+function isMapped(field: string, paths: Set<string>): boolean {
+  const parts = field.split('.');
+  return parts.some((_, i) => paths.has(parts.slice(0, i + 1).join('.')));
+}
+
+/** Operation-level mapping override (under any executor's `response`) */
+function operationMapping(def: Record<string, unknown>): Record<string, unknown> | null {
+  for (const value of Object.values(def)) {
+    const mapping = (value as { response?: { mapping?: unknown } } | null)?.response?.mapping;
+    if (mapping && typeof mapping === 'object') return mapping as Record<string, unknown>;
+  }
+  return null;
+}
+
+/** Operations of a plugin that return an entity */
+function operationsReturning(plugin: PluginDefinition, entityId: string): string[] {
+  return Object.entries(plugin.config.operations || {})
+    .filter(([, def]) => parseReturns(def.returns)?.entity === entityId)
+    .map(([name]) => name);
+}
+
+const RAW_SUFFIX = '.raw.json';
+
+/**
+ * Sample results of a plugin's operations, as entity items: raw snapshots
+ * mapped here, and what AgentOS returned in recorded cassettes
+ */
+function sampleItems(plugin: PluginDefinition, operations: string[]): Record<string, unknown>[] {
+  const results: unknown[] = [];
+
+  const snapshots = join(plugin.dir, 'tests', 'fixtures', 'snapshots');
+  if (existsSync(snapshots)) {
+    for (const file of readdirSync(snapshots).filter(f => f.endsWith(RAW_SUFFIX))) {
+      // task.list.empty → task.list (longest operation name that prefixes it)
+      const name = file.slice(0, -RAW_SUFFIX.length);
+      const operation = operations
+        .filter(op => name === op || name.startsWith(`${op}.`))
+        .sort((a, b) => b.length - a.length)[0];
+      if (!operation) continue;
+      const raw = JSON.parse(readFileSync(join(snapshots, file), 'utf-8'));
+      results.push(mapResponse(plugin, operation, raw));
+    }
+  }
+
+  const cassettes = join(plugin.dir, 'tests', 'fixtures', 'cassettes');
+  if (existsSync(cassettes)) {
+    for (const file of readdirSync(cassettes).filter(f => f.endsWith('.json'))) {
+      const { server, interactions = [] } = JSON.parse(readFileSync(join(cassettes, file), 'utf-8')) as {
+        server?: string;
+        interactions?: CassetteInteraction[];
+      };
+      if (server !== 'agentos') continue;
+      for (const interaction of interactions) {
+        if (interaction.plugin === plugin.id && operations.includes(interaction.tool)) {
+          results.push(interaction.response?.result);
+        }
+      }
+    }
+  }
+
+  return results
+    .flatMap(result => (Array.isArray(result) ? result : [result]))
+    .filter((item): item is Record<string, unknown> => !!item && typeof item === 'object');
+}
+
+function valueAt(item: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    item
+  );
+}
+
+function isPopulated(value: unknown): boolean {
+  if (value === null || value === undefined || value === '') return false;
+  return !Array.isArray(value) || value.length > 0;
+}
+
+function pluginCoverage(plugin: PluginDefinition, entity: EntityDefinition, fields: string[]): Map<string, Cell> {
+  const operations = operationsReturning(plugin, entity.id);
+  const adapter = plugin.config.adapters?.[entity.id]?.mapping || {};
+
+  // Each operation maps with its override, else the adapter mapping
+  const mappings = (operations.length > 0 ? operations : [null]).map(name => {
+    const override = name ? operationMapping(plugin.config.operations![name]) : null;
+    return new Set(mappedPaths(override || adapter));
+  });
+  const items = sampleItems(plugin, operations);
+
+  const cells = new Map<string, Cell>();
+  for (const field of fields) {
+    const mappedBy = mappings.filter(paths => isMapped(field, paths)).length;
+    if (mappedBy === 0) cells.set(field, 'unmapped');
+    else if (mappedBy < mappings.length) cells.set(field, 'partial');
+    else if (items.length === 0) cells.set(field, 'mapped');
+    else cells.set(field, items.some(item => isPopulated(valueAt(item, field))) ? 'populated' : 'empty');
+  }
+  return cells;
+}
+
+export function fieldCoverage(entityFilter?: string): EntityCoverage[] {
+  const plugins = loadPlugins().sort((a, b) => a.id.localeCompare(b.id));
+
+  return [...loadEntities().values()]
+    .filter(entity => !entityFilter || entity.id === entityFilter)
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map(entity => {
+      const fields = fieldPaths(entity.properties);
+      const providers = plugins.filter(p =>
+        p.config.adapters?.[entity.id] || operationsReturning(p, entity.id).length > 0
+      );
+      const cells = new Map(providers.map(p => [p.id, pluginCoverage(p, entity, fields)]));
+      return { entity, fields, plugins: providers.map(p => p.id), cells };
+    })
+    .filter(coverage => coverage.plugins.length > 0);
+}
+
+// =============================================================================
+// Output
+// =============================================================================
+
+/** "5/8" of an entity's fields a plugin maps */
+function mappedCount(coverage: EntityCoverage, plugin: string): string {
+  const cells = [...coverage.cells.get(plugin)!.values()];
+  return `${cells.filter(cell => cell !== 'unmapped').length}/${cells.length}`;
+}
+
+function markdown(coverages: EntityCoverage[]): string {
+  const lines = ['# Field Coverage', ''];
+  lines.push(Object.values(SYMBOLS).map(({ symbol, meaning }) => `${symbol} ${meaning}`).join(' · '), '');
+
+  for (const coverage of coverages) {
+    const { entity, fields, plugins, cells } = coverage;
+    lines.push(`## ${entity.id}`, '');
+    lines.push(`| ${entity.id} | ${plugins.join(' | ')} |`);
+    lines.push(`|---|${plugins.map(() => ':---:').join('|')}|`);
+    for (const field of fields) {
+      const row = plugins.map(p => SYMBOLS[cells.get(p)!.get(field)!].symbol);
+      lines.push(`| \`${field}\` | ${row.join(' | ')} |`);
+    }
+    lines.push(`| **mapped** | ${plugins.map(p => mappedCount(coverage, p)).join(' | ')} |`, '');
+  }
+
+  return lines.join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function html(coverages: EntityCoverage[]): string {
+  const legend = Object.entries(SYMBOLS)
+    .map(([cell, { symbol, meaning }]) => `<li><span class="${cell}">${symbol}</span> ${escapeHtml(meaning)}</li>`)
+    .join('\n');
+
+  const tables = coverages.map(coverage => {
+    const { entity, fields, plugins, cells } = coverage;
+    const head = plugins.map(p => `<th>${escapeHtml(p)}</th>`).join('');
+    const rows = fields.map(field => {
+      const row = plugins.map(p => {
+        const cell = cells.get(p)!.get(field)!;
+        return `<td class="${cell}" title="${SYMBOLS[cell].meaning}">${SYMBOLS[cell].symbol}</td>`;
+      });
+      return `<tr><th><code>${escapeHtml(field)}</code></th>${row.join('')}</tr>`;
+    });
+    const totals = plugins.map(p => `<td>${mappedCount(coverage, p)}</td>`).join('');
+    return [
+      `<h2>${escapeHtml(entity.id)}</h2>`,
+      `<table>`,
+      `<tr><th></th>${head}</tr>`,
+      ...rows,
+      `<tr class="total"><th>mapped</th>${totals}</tr>`,
+      `</table>`,
+    ].join('\n');
+  });
+
+  return [
+    '<!doctype html>',
+    '<meta charset="utf-8">',
+    '<title>Field Coverage</title>',
+    '<style>',
+    'body { font-family: system-ui, sans-serif; margin: 2rem; }',
+    'table { border-collapse: collapse; margin-bottom: 2rem; }',
+    'th, td { border: 1px solid #ddd; padding: 0.25rem 0.75rem; text-align: center; }',
+    'tr > th:first-child { text-align: left; }',
+    '.populated { color: #1a7f37; } .mapped { color: #57606a; } .empty, .partial { color: #9a6700; } .unmapped { color: #cf222e; }',
+    '.total td { font-weight: bold; }',
+    '</style>',
+    '<h1>Field Coverage</h1>',
+    `<ul>\n${legend}\n</ul>`,
+    ...tables,
+    '',
+  ].join('\n');
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const option = (name: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  const entity = option('--entity');
+  const coverages = fieldCoverage(entity);
+  if (coverages.length === 0) {
+    console.error(`❌ No plugin provides ${entity ? `entity '${entity}'` : 'any entity'}`);
+    process.exit(1);
+  }
+
+  const output = args.includes('--html') ? html(coverages) : markdown(coverages);
+  const out = option('--out');
+  if (out) {
+    writeFileSync(out, output);
+    console.log(`✅ Wrote ${out}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+main();
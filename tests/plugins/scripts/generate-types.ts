@@ -0,0 +1,311 @@
+#!/usr/bin/env npx tsx
+/**
+ * Plugin Type Generator
+ *
+ * Generates tests/types/plugins.d.ts from entity YAML and plugin readme
+ * frontmatter, so tool calls in tests are type-checked:
+ *
+ *   const tasks = await aos().usePlugin('todoist', 'task.list', { limit: 5 });
+ *   tasks[0].title;                                   // string
+ *   aos().usePlugin('todoist', 'task.list', { limt: 5 });  // type error
+ *
+ * Entities become interfaces (properties, required flags, nested objects).
+ * Each plugin tool gets the params its plugin declares and its return type.
+ * Standard operation params (entities/operations.yaml) are not assumed -
+ * a plugin only accepts the ones it declares. Fields an adapter maps beyond
+ * the entity schema (e.g. _project_id) are added as unknown, as are results
+ * of tools that declare no return.
+ *
+ * Usage:
+ *   npm run generate:types            # Write tests/types/plugins.d.ts
+ *   npm run generate:types -- --check # Fail if the file is out of date
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import {
+  EntityDefinition,
+  EntityProperty,
+  loadEntities,
+  parseReturns,
+} from '../../utils/entities';
+import { INTEGRATIONS_ROOT, loadPluginsWithErrors, ParamDef, PluginDefinition, UtilityDef } from '../../utils/plugins';
+
+const OUTPUT = join(INTEGRATIONS_ROOT, 'tests', 'types', 'plugins.d.ts');
+
+// =============================================================================
+// Naming
+// =============================================================================
+
+function pascalCase(id: string): string {
+  return id
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase() + part.slice(1))
+    .join('');
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function docComment(text: string | undefined, indent: string): string {
+  if (!text) return '';
+  const line = text.replace(/\s+/g, ' ').replace(/\*\//g, '*\\/').trim();
+  return `${indent}/** ${line} */\n`;
+}
+
+// =============================================================================
+// Type Mapping
+// =============================================================================
+
+/** Map a schema type name to TypeScript (entity ids map to their interface) */
+function scalarType(type: string | undefined, entities: Map<string, EntityDefinition>): string {
+  switch (type) {
+    case 'string':
+    case 'date':
+    case 'datetime':
+      return 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array':
+      return 'unknown[]';
+    case 'object':
+      return 'Record<string, unknown>';
+    default:
+      return type && entities.has(type) ? pascalCase(type) : 'unknown';
+  }
+}
+
+function propertyType(prop: EntityProperty, entities: Map<string, EntityDefinition>, indent: string): string {
+  if (prop.enum?.length) {
+    return prop.enum.map(v => JSON.stringify(v)).join(' | ');
+  }
+  if (prop.type === 'array' && prop.items?.type) {
+    return `Array<${scalarType(prop.items.type, entities)}>`;
+  }
+  if (prop.type === 'object' && prop.properties) {
+    return objectType(prop.properties, entities, indent);
+  }
+  return scalarType(prop.type, entities);
+}
+
+function objectType(
+  properties: Record<string, EntityProperty>,
+  entities: Map<string, EntityDefinition>,
+  indent: string
+): string {
+  const inner = indent + '  ';
+  const fields = Object.entries(properties).map(([name, prop]) =>
+    docComment(prop.description, inner) +
+    `${inner}${propertyKey(name)}${prop.required ? '' : '?'}: ${propertyType(prop, entities, inner)};`
+  );
+  return `{\n${fields.join('\n')}\n${indent}}`;
+}
+
+function paramType(param: ParamDef, entities: Map<string, EntityDefinition>): string {
+  const allowed = param.enum ?? param.values;
+  if (allowed?.length) {
+    return allowed.map(v => JSON.stringify(v)).join(' | ');
+  }
+  if (param.type === 'array' && param.items?.type) {
+    return `Array<${scalarType(param.items.type, entities)}>`;
+  }
+  return scalarType(param.type, entities);
+}
+
+function paramsType(params: Record<string, ParamDef> | undefined, entities: Map<string, EntityDefinition>, indent: string): string {
+  const entries = Object.entries(params || {}).filter(([, def]) => def && typeof def === 'object');
+  if (entries.length === 0) return 'Record<string, never>';
+
+  const inner = indent + '  ';
+  const fields = entries.map(([name, def]) =>
+    docComment(def.description, inner) +
+    `${inner}${propertyKey(name)}${def.required ? '' : '?'}: ${paramType(def, entities)};`
+  );
+  return `{\n${fields.join('\n')}\n${indent}}`;
+}
+
+// =============================================================================
+// Generation
+// =============================================================================
+
+function generateEntity(entity: EntityDefinition, entities: Map<string, EntityDefinition>): string {
+  return (
+    docComment(entity.description, '') +
+    `export interface ${pascalCase(entity.id)} ${objectType(entity.properties, entities, '')}\n`
+  );
+}
+
+/** Fields an adapter maps that the entity schema doesn't declare */
+function adapterExtras(plugin: PluginDefinition, entity: EntityDefinition): string[] {
+  const mapping = plugin.config.adapters?.[entity.id]?.mapping || {};
+  const extras = new Set<string>();
+  for (const key of Object.keys(mapping)) {
+    // Dotted keys (author.name) map into nested objects
+    const top = key.split('.')[0];
+    if (!(top in entity.properties) && top !== 'plugin') extras.add(top);
+  }
+  return [...extras];
+}
+
+/** Type name for an entity as returned by a plugin (entity + plugin tag + adapter extras) */
+function pluginEntityType(
+  plugin: PluginDefinition,
+  entityId: string,
+  entities: Map<string, EntityDefinition>,
+  aliases: Map<string, string>
+): string {
+  const entity = entities.get(entityId);
+  if (!entity) return 'unknown';
+
+  const extras = adapterExtras(plugin, entity);
+  if (extras.length === 0) return `FromPlugin<${pascalCase(entity.id)}>`;
+
+  const alias = `${pascalCase(plugin.id)}${pascalCase(entity.id)}`;
+  if (!aliases.has(alias)) {
+    const fields = extras.map(name => `${propertyKey(name)}?: unknown`).join('; ');
+    aliases.set(alias, `export type ${alias} = FromPlugin<${pascalCase(entity.id)}> & { ${fields} };\n`);
+  }
+  return alias;
+}
+
+/**
+ * Whether a tool's executor selects a GraphQL connection's nodes - an inline
+ * return shape then describes each item (linear get_teams: /data/teams/nodes)
+ */
+function returnsNodes(def: UtilityDef): boolean {
+  const executor = def.graphql as { response?: { root?: unknown } } | undefined;
+  const root = executor?.response?.root;
+  return typeof root === 'string' && /\/nodes$/.test(root);
+}
+
+function returnType(
+  def: UtilityDef,
+  plugin: PluginDefinition,
+  entities: Map<string, EntityDefinition>,
+  aliases: Map<string, string>,
+  indent: string
+): string {
+  const { returns } = def;
+  if (returns === 'void') return 'void';
+  if (returns === 'readme') return 'string';
+
+  // Utilities can declare an inline shape: { success: boolean, id: string }
+  if (returns && typeof returns === 'object') {
+    const inner = indent + '  ';
+    const fields = Object.entries(returns).map(([name, type]) =>
+      `${inner}${propertyKey(name)}: ${scalarType(String(type), entities)};`
+    );
+    const shape = `{\n${fields.join('\n')}\n${indent}}`;
+    return returnsNodes(def) ? `Array<${shape}>` : shape;
+  }
+
+  // Tools without a declared return stay unknown until the plugin declares one
+  const parsed = parseReturns(returns);
+  if (!parsed) return 'unknown';
+
+  const type = pluginEntityType(plugin, parsed.entity, entities, aliases);
+  return parsed.many ? `Array<${type}>` : type;
+}
+
+function generatePlugin(
+  plugin: PluginDefinition,
+  entities: Map<string, EntityDefinition>,
+  aliases: Map<string, string>
+): string {
+  const tools: Record<string, UtilityDef> = {
+    ...(plugin.config.actions as Record<string, UtilityDef> | undefined),
+    ...plugin.config.utilities,
+    ...(plugin.config.operations as Record<string, UtilityDef> | undefined),
+  };
+
+  // Every plugin serves its own readme (typed as string below)
+  tools.readme = { description: 'Plugin documentation (built in)', returns: 'readme' } as UtilityDef;
+
+  const indent = '    ';
+  const entries = Object.entries(tools)
+    .filter(([, def]) => def && typeof def === 'object')
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, def]) =>
+      docComment(def.description, indent) +
+      `${indent}${JSON.stringify(name)}: {\n` +
+      `${indent}  params: ${paramsType(def.params, entities, indent + '  ')};\n` +
+      `${indent}  returns: ${returnType(def, plugin, entities, aliases, indent + '  ')};\n` +
+      `${indent}};`
+    );
+
+  return (
+    docComment(plugin.config.description || plugin.config.name, '  ') +
+    `  ${propertyKey(plugin.id)}: {\n${entries.join('\n')}\n  };`
+  );
+}
+
+export function generate(): string {
+  const entities = loadEntities();
+  const { plugins, errors } = loadPluginsWithErrors();
+  for (const error of errors) {
+    console.warn(`⚠ Skipping plugins/${error.path}: ${error.error}`);
+  }
+
+  const aliases = new Map<string, string>();
+  const sortedEntities = [...entities.values()].sort((a, b) => a.id.localeCompare(b.id));
+  const sortedPlugins = [...plugins].sort((a, b) => a.id.localeCompare(b.id));
+  const pluginBlocks = sortedPlugins.map(p => generatePlugin(p, entities, aliases));
+
+  return [
+    '/**',
+    ' * Plugin and Entity Types',
+    ' *',
+    ' * GENERATED by tests/plugins/scripts/generate-types.ts - do not edit.',
+    ' * Regenerate after changing entity YAML or plugin frontmatter:',
+    ' *   npm run generate:types',
+    ' */',
+    '',
+    '// =============================================================================',
+    '// Entities (entities/)',
+    '// =============================================================================',
+    '',
+    sortedEntities.map(e => generateEntity(e, entities)).join('\n'),
+    '/** An entity as returned by a plugin (AgentOS tags it with the plugin id) */',
+    'export type FromPlugin<E> = E & { plugin: string };',
+    '',
+    '// =============================================================================',
+    '// Plugin Entities (adapter mappings beyond the entity schema)',
+    '// =============================================================================',
+    '',
+    [...aliases.values()].join(''),
+    '// =============================================================================',
+    '// Plugin Tools (plugins/*/readme.md)',
+    '// =============================================================================',
+    '',
+    'export interface PluginTools {',
+    pluginBlocks.join('\n'),
+    '}',
+    '',
+  ].join('\n');
+}
+
+function main() {
+  const check = process.argv.includes('--check');
+  const output = generate();
+
+  if (check) {
+    const current = existsSync(OUTPUT) ? readFileSync(OUTPUT, 'utf-8') : '';
+    if (current !== output) {
+      console.error('❌ tests/types/plugins.d.ts is out of date. Run: npm run generate:types');
+      process.exit(1);
+    }
+    console.log('✅ tests/types/plugins.d.ts is up to date');
+    return;
+  }
+
+  mkdirSync(dirname(OUTPUT), { recursive: true });
+  writeFileSync(OUTPUT, output);
+  console.log(`✅ Wrote ${OUTPUT.replace(INTEGRATIONS_ROOT + '/', '')}`);
+}
+
+main();
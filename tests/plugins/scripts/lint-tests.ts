@@ -62,28 +62,15 @@ interface LintResult {
 
 const CHECKS: Record<string, Check> = {
   // Credential handling (for plugins with auth)
-  skip_tests_variable: {
-    id: 'skip_tests_variable',
-    pattern: /let\s+skipTests\s*=\s*false/,
-    description: 'let skipTests = false',
-  },
-  before_all_credential_check: {
-    id: 'before_all_credential_check',
-    pattern: /beforeAll[\s\S]*?Credential not found/,
-    description: "beforeAll with 'Credential not found' check",
-  },
-  skip_check_in_tests: {
-    id: 'skip_check_in_tests',
-    pattern: /if\s*\(\s*skipTests\s*\)/,
-    description: 'if (skipTests) in test cases',
+  credentials_skip: {
+    id: 'credentials_skip',
+    pattern: /describe\.skipIf\(\s*credentialsUnavailable\(/,
+    description: 'describe.skipIf(credentialsUnavailable(plugin))',
   },
   
-  // Cleanup (for plugins with create operations)
-  after_all_cleanup: {
-    id: 'after_all_cleanup',
-    pattern: /afterAll[\s\S]*?createdItems/,
-    description: 'afterAll with createdItems cleanup',
-  },
+  // Cleanup (for plugins with create operations). Created entities are
+  // deleted automatically (tests/utils/created-entities.ts); test data
+  // still needs the [TEST] prefix so the sweeper can find strays.
   test_content_usage: {
     id: 'test_content_usage',
     pattern: /testContent\s*\(/,
@@ -176,14 +163,11 @@ function getRequiredChecks(meta: PluginMeta): Check[] {
   
   // Credential handling (unless exempt)
   if (meta.hasAuth && !meta.exemptions.credential_handling) {
-    checks.push(CHECKS.skip_tests_variable);
-    checks.push(CHECKS.before_all_credential_check);
-    checks.push(CHECKS.skip_check_in_tests);
+    checks.push(CHECKS.credentials_skip);
   }
   
   // Cleanup (unless exempt)
   if (meta.hasCreateOps && !meta.exemptions.cleanup) {
-    checks.push(CHECKS.after_all_cleanup);
     checks.push(CHECKS.test_content_usage);
   }
   
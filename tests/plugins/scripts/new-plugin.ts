@@ -228,30 +228,14 @@ describe('${displayName} Plugin', () => {
  * ${displayName} Plugin Tests
  */
 
-import { describe, it, expect, beforeAll } from 'vitest';
-import { aos } from '../../../tests/utils/fixtures';
+import { describe, it, expect } from 'vitest';
+import { aos, credentialsUnavailable } from '../../../tests/utils/fixtures';
 
 const plugin = '${pluginName}';
 
-// Skip tests if no credentials configured
-let skipTests = false;
-
-describe('${displayName} Plugin', () => {
-  beforeAll(async () => {
-    try {
-      await aos().call('UsePlugin', { plugin, tool: 'list', params: { limit: 1 } });
-    } catch (e: any) {
-      if (e.message?.includes('Credential not found')) {
-        console.log('  ⏭ Skipping: no credentials configured');
-        skipTests = true;
-      } else throw e;
-    }
-  });
-
+describe.skipIf(credentialsUnavailable(plugin))('${displayName} Plugin', () => {
   describe('list', () => {
     it('returns an array of items', async () => {
-      if (skipTests) return;
-
       const items = await aos().call('UsePlugin', {
         plugin,
         tool: 'list',
@@ -262,8 +246,6 @@ describe('${displayName} Plugin', () => {
     });
 
     it('items have required schema fields', async () => {
-      if (skipTests) return;
-
       const items = await aos().call('UsePlugin', {
         plugin,
         tool: 'list',
@@ -411,29 +393,15 @@ describe('${displayName} Plugin', () => {
  * ${displayName} Plugin Tests
  */
 
-import { describe, it, expect, beforeAll, afterAll } from 'vitest';
-import { aos, testContent, TEST_PREFIX } from '../../../tests/utils/fixtures';
+import { describe, it, expect, afterAll } from 'vitest';
+import { aos, credentialsUnavailable, testContent, TEST_PREFIX } from '../../../tests/utils/fixtures';
 
 const plugin = '${pluginName}';
 
 // Track created items for cleanup
 const createdItems: Array<{ id: string }> = [];
 
-// Skip tests if no credentials configured
-let skipTests = false;
-
-describe('${displayName} Plugin', () => {
-  beforeAll(async () => {
-    try {
-      await aos().call('UsePlugin', { plugin, tool: 'list', params: { limit: 1 } });
-    } catch (e: any) {
-      if (e.message?.includes('Credential not found')) {
-        console.log('  ⏭ Skipping: no credentials configured');
-        skipTests = true;
-      } else throw e;
-    }
-  });
-
+describe.skipIf(credentialsUnavailable(plugin))('${displayName} Plugin', () => {
   afterAll(async () => {
     for (const item of createdItems) {
       try {
@@ -451,8 +419,6 @@ describe('${displayName} Plugin', () => {
 
   describe('list', () => {
     it('returns an array of items', async () => {
-      if (skipTests) return;
-
       const items = await aos().call('UsePlugin', {
         plugin,
         tool: 'list',
@@ -463,8 +429,6 @@ describe('${displayName} Plugin', () => {
     });
 
     it('items have required schema fields', async () => {
-      if (skipTests) return;
-
       const items = await aos().call('UsePlugin', {
         plugin,
         tool: 'list',
@@ -483,8 +447,6 @@ describe('${displayName} Plugin', () => {
     let createdItem: any;
 
     it('can create an item', async () => {
-      if (skipTests) return;
-
       const title = testContent('item');
 
       createdItem = await aos().call('UsePlugin', {
@@ -501,7 +463,6 @@ describe('${displayName} Plugin', () => {
     });
 
     it('can get the created item', async () => {
-      if (skipTests) return;
       if (!createdItem?.id) return;
 
       const item = await aos().call('UsePlugin', {
@@ -516,7 +477,6 @@ describe('${displayName} Plugin', () => {
     });
 
     it('can update the item', async () => {
-      if (skipTests) return;
       if (!createdItem?.id) return;
 
       const newTitle = testContent('updated item');
@@ -532,7 +492,6 @@ describe('${displayName} Plugin', () => {
     });
 
     it('can delete the item', async () => {
-      if (skipTests) return;
       if (!createdItem?.id) return;
 
       const result = await aos().call('UsePlugin', {
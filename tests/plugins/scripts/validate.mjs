@@ -4,7 +4,8 @@
  * 
  * Checks:
  * 1. Schema validation - YAML frontmatter matches plugin.schema.json
- * 2. Test coverage - every operation/utility has a test
+ * 2. Mutation handlers - every relationship `mutation` names a utility
+ * 3. Test coverage - every operation/utility has a test
  * 
  * Usage: node scripts/validate-schema.mjs [app1] [app2] ...
  *        node scripts/validate-schema.mjs --all
@@ -52,6 +53,21 @@ function getTools(frontmatter) {
   return tools;
 }
 
+// Relationship mutation handlers that don't name a utility
+function getMissingMutations(frontmatter) {
+  const utilities = frontmatter.utilities || {};
+  const missing = [];
+  for (const [entity, adapter] of Object.entries(frontmatter.adapters || {})) {
+    for (const [relationship, support] of Object.entries(adapter?.relationships || {})) {
+      const mutation = support?.mutation;
+      if (mutation && !utilities[mutation]) {
+        missing.push(`${entity}.${relationship} → ${mutation}`);
+      }
+    }
+  }
+  return missing;
+}
+
 // Find which tools are tested by parsing test files
 function getTestedTools(pluginDir) {
   const testsDir = join(pluginDir, 'tests');
@@ -169,7 +185,12 @@ for (const plugin of plugins) {
     } else {
         // Check icon.svg exists (required for all plugins)
         const iconPath = join(pluginDir, 'icon.svg');
-        if (!existsSync(iconPath)) {
+        const missingMutations = getMissingMutations(frontmatter);
+        if (missingMutations.length > 0) {
+          console.error(`❌ plugins/${plugin.path}: Mutation handlers not in utilities: ${missingMutations.join(', ')}`);
+          failureReason = `Mutation handlers not in utilities: ${missingMutations.join(', ')}`;
+          failed = true;
+        } else if (!existsSync(iconPath)) {
           console.error(`❌ plugins/${plugin.path}: icon.svg not found (required)`);
           failureReason = 'icon.svg not found';
           failed = true;
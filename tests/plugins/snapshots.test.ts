@@ -0,0 +1,63 @@
+/**
+ * Mapping Snapshot Tests
+ *
+ * Golden files for what a plugin's `response.root` and adapter `mapping`
+ * make of a raw upstream response, as the harness's mapper reads them (see
+ * utils/mapping.ts; mapping.test.ts checks that mapper against AgentOS):
+ *
+ *   plugins/{plugin}/tests/fixtures/snapshots/task.list.raw.json      # upstream body
+ *   plugins/{plugin}/tests/fixtures/snapshots/task.list.mapped.json   # entities
+ *
+ * A raw file names the operation, optionally with a case suffix
+ * (task.list.empty.raw.json). Its mapped file is written on first run; after
+ * that a mapping change fails until the snapshot is updated on purpose:
+ *
+ *   npm run test:snapshots -- -u
+ *
+ * CI never writes snapshots, so a missing mapped file fails there. Static:
+ * no server or credentials needed; runs with the static test config.
+ *
+ * Run: npm run test:snapshots
+ */
+
+import { describe, it, expect } from 'vitest';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { mapResponse } from '../utils/mapping';
+import { loadPlugins } from '../utils/plugins';
+
+const RAW_SUFFIX = '.raw.json';
+
+// Filter to only run specific plugin if specified
+const targetPlugin = process.env.TEST_PLUGIN;
+
+describe('Mapping Snapshots', () => {
+  for (const plugin of loadPlugins()) {
+    // Skip if filtering to specific plugin
+    if (targetPlugin && plugin.id !== targetPlugin) {
+      continue;
+    }
+
+    const dir = join(plugin.dir, 'tests', 'fixtures', 'snapshots');
+    const raws = existsSync(dir) ? readdirSync(dir).filter(f => f.endsWith(RAW_SUFFIX)).sort() : [];
+    if (raws.length === 0) continue;
+
+    describe(plugin.id, () => {
+      for (const file of raws) {
+        const name = file.slice(0, -RAW_SUFFIX.length);
+        // task.list.empty → task.list (longest operation name that prefixes it)
+        const tool = Object.keys(plugin.config.operations || {})
+          .filter(op => name === op || name.startsWith(`${op}.`))
+          .sort((a, b) => b.length - a.length)[0];
+
+        it(`${name} maps to ${name}.mapped.json`, async () => {
+          expect(tool, `${file} names no operation of ${plugin.id}`).toBeDefined();
+
+          const raw = JSON.parse(readFileSync(join(dir, file), 'utf-8'));
+          const mapped = mapResponse(plugin, tool, raw);
+          await expect(`${JSON.stringify(mapped, null, 2)}\n`).toMatchFileSnapshot(join(dir, `${name}.mapped.json`));
+        });
+      }
+    });
+  }
+});
@@ -1,44 +1,167 @@
 /**
  * Global Test Setup
  * 
- * Starts the HTTP server before tests run and tears it down after.
+ * Starts the AgentOS server before tests run and tears it down after.
  * This runs via vitest's setupFiles in the same process as tests.
  * 
- * Using HTTP instead of MCP:
+ * Uses HTTP by default instead of MCP:
  * - Simpler (no JSON-RPC or stdio overhead)
  * - Same results (HTTP returns plain data, like MCP after unwrapping)
  * - Transport-agnostic (plugin tests should work regardless of interface)
+ * 
+ * Set AGENTOS_TRANSPORT=mcp to run the same tests over MCP stdio.
+ * `npm run test:parity` runs plugin suites over both and diffs the results.
+ * 
+ * Set AGENTOS_CASSETTE=record to save tool calls as fixtures, or
+ * AGENTOS_CASSETTE=replay to run from fixtures without the server.
+ * 
+ * Set AGENTOS_SERVER=fixtures to answer tool calls from an in-process
+ * fixture server instead of spawning the AgentOS binary.
+ *
+ * The connection is made before the test file is collected. Which plugins
+ * have credentials stored in AgentOS is asked once per run, by
+ * global-setup.ts (see utils/credentials.ts).
+ *
+ * Entities created through `{entity}.create` are deleted after each test
+ * file (see utils/created-entities.ts).
+ *
+ * Server output is buffered: a failing test gets the lines logged while it
+ * ran, and each file's full log goes to tests/.artifacts/server-logs/ (see
+ * utils/server-logs.ts).
  */
 
-import { beforeAll, afterAll } from 'vitest';
-import { AgentOS, setGlobalAgentOS } from './utils/http-client';
-
-let aos: AgentOS | null = null;
-
-beforeAll(async () => {
-  console.log('\n🌐 Connecting to AgentOS HTTP server...');
-  
-  try {
-    aos = await AgentOS.connect({
-      debug: !!process.env.DEBUG_HTTP,
-      timeout: 30000,
-    });
-    
-    setGlobalAgentOS(aos);
-    console.log('✅ AgentOS HTTP server ready\n');
-  } catch (error) {
+import { beforeAll, beforeEach, afterAll, inject } from 'vitest';
+import { AgentOS as HttpAgentOS } from './utils/http-client';
+import { AgentOS as McpAgentOS } from './utils/mcp-client';
+import { AgentOSClient, setGlobalAgentOS, transportFromEnv } from './utils/transport';
+import { FixtureServer } from './utils/fixture-server';
+import { ParityRecorder } from './utils/parity';
+import { EntityRegistry } from './utils/created-entities';
+import { AgentOSBinaryError } from './utils/agentos-binary';
+import { useStoredCredentials } from './utils/credentials';
+import { workerPort } from './utils/worker';
+import { requestIdOf, ServerLog } from './utils/server-logs';
+import './utils/matchers';
+
+let aos: AgentOSClient | null = null;
+let fixtureServer = null as FixtureServer | null;
+let serverLog: ServerLog | null = null;
+let testFile: string | undefined;
+
+const transport = transportFromEnv();
+
+async function connectMcp(log: ServerLog): Promise<McpAgentOS> {
+  if (process.env.AGENTOS_CASSETTE || process.env.AGENTOS_SERVER === 'fixtures') {
+    throw new Error('Cassettes and the fixture server are HTTP-only (unset them, or use AGENTOS_TRANSPORT=http)');
+  }
+
+  console.log('\n🔌 Connecting to AgentOS over MCP...');
+  return McpAgentOS.connect({
+    debug: !!process.env.DEBUG_MCP,
+    timeout: 30000,
+    serverLog: log,
+  });
+}
+
+async function connectHttp(log: ServerLog): Promise<HttpAgentOS> {
+  if (process.env.AGENTOS_CASSETTE === 'replay') {
+    console.log('\n📼 Replaying recorded tool calls (no server)...');
+  } else if (process.env.AGENTOS_SERVER === 'fixtures') {
+    if (process.env.AGENTOS_CASSETTE === 'record') {
+      throw new Error('Recording from the fixture server only saves its own canned answers; record against AgentOS');
+    }
+    console.log('\n🧪 Starting fixture server (no AgentOS binary)...');
+    fixtureServer = await FixtureServer.start({ port: workerPort() });
+  } else {
+    console.log('\n🌐 Connecting to AgentOS HTTP server...');
+  }
+
+  return HttpAgentOS.connect({
+    autoStart: !fixtureServer,
+    debug: !!process.env.DEBUG_HTTP,
+    timeout: 30000,
+    serverLog: log,
+  });
+}
+
+/** Log why connecting failed (AgentOSBinaryError already says how to fix it) */
+function reportConnectError(error: unknown) {
+  if (error instanceof AgentOSBinaryError) {
+    console.error(`❌ ${error.message}\n`);
+  } else {
     console.error('❌ Failed to connect to AgentOS:', error);
     console.error('\nMake sure AgentOS is built:');
     console.error('  cd ~/dev/agentos && cargo build\n');
-    throw error;
   }
+}
+
+// Suites decide whether to skip while collecting (credentialsUnavailable),
+// so they need to know what global-setup.ts found stored in AgentOS
+useStoredCredentials(inject('storedCredentials') ?? []);
+
+// Connect before the test file is collected. Failing here fails the file,
+// even one whose suites would all have been skipped. The server log is
+// ours from the start, so a failed startup still reports what it said.
+serverLog = new ServerLog();
+try {
+  aos = transport === 'mcp' ? await connectMcp(serverLog) : await connectHttp(serverLog);
+} catch (error) {
+  reportConnectError(error);
+  await fixtureServer?.stop();
+
+  const tail = serverLog.tail();
+  if (error instanceof Error && tail.length > 0) error.message += ServerLog.format(tail);
+  const logPath = ServerLog.startupArtifactPath();
+  if (serverLog.write(logPath)) console.error(`Full server log: ${logPath}`);
+  throw error;
+}
+
+beforeAll(async (suite) => {
+  if (!aos) return;
+  testFile = suite.filepath;
+
+  // Delete what tests create when the file finishes (nothing real is
+  // created when replaying or answering from fixtures)
+  if (process.env.AGENTOS_CASSETTE !== 'replay' && !fixtureServer) {
+    aos = new EntityRegistry(aos);
+  }
+
+  // Record results for the HTTP/MCP parity diff
+  if (process.env.AGENTOS_PARITY && suite.filepath) {
+    aos = new ParityRecorder(aos, suite.filepath);
+  }
+
+  setGlobalAgentOS(aos);
+  console.log(`✅ AgentOS ${transport.toUpperCase()} ready\n`);
+});
+
+// Attach what the server logged during a failing test to its failure
+beforeEach((context) => {
+  const log = serverLog;
+  if (!log) return;
+
+  const started = Date.now();
+  log.mark(context.task.name);
+  context.onTestFailed((result) => {
+    const error = result.errors?.[0];
+    const lines = log.slice(started, requestIdOf(error));
+    if (error && lines.length > 0) error.message += ServerLog.format(lines);
+  });
 });
 
 afterAll(async () => {
   if (aos) {
-    console.log('\n🌐 Shutting down AgentOS HTTP server...');
+    console.log(`\n🌐 Shutting down AgentOS ${transport.toUpperCase()} connection...`);
     await aos.disconnect();
     setGlobalAgentOS(null);
     console.log('✅ AgentOS disconnected\n');
   }
+  if (serverLog && testFile) {
+    serverLog.write(ServerLog.artifactPath(testFile));
+    serverLog = null;
+  }
+  if (fixtureServer) {
+    await fixtureServer.stop();
+    fixtureServer = null;
+  }
 });
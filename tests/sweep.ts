@@ -0,0 +1,62 @@
+/**
+ * Test Data Sweeper
+ *
+ * Deletes leftover [TEST] items from crashed runs across every plugin.
+ * For each entity a plugin can both list and delete, lists every item and
+ * deletes those whose title or name starts with TEST_PREFIX. `list_all`
+ * wins over a `list` that filters by default (todoist's task.list only
+ * returns today, overdue and inbox); entities that can't be fully listed
+ * show up as skipped entries saying why. Entities go in dependency order
+ * (tasks before projects); plugins without credentials are skipped. An
+ * entity whose listing or any delete fails fails its test.
+ *
+ * Runs through vitest to get the usual server setup (vitest.sweep.config.ts):
+ *   npm run sweep                   # Delete leftovers
+ *   SWEEP_DRY_RUN=1 npm run sweep   # Only report them
+ *   npm run sweep -- -t todoist     # One plugin
+ */
+
+import { describe, it } from 'vitest';
+import { cleanupTestData, fullListing, hasCredentials, listTestData } from './utils/fixtures';
+import { entityDeletionOrder } from './utils/created-entities';
+import { loadPlugins } from './utils/plugins';
+
+const dryRun = !!process.env.SWEEP_DRY_RUN;
+
+for (const plugin of loadPlugins()) {
+  const operations = plugin.config.operations || {};
+  const entities = [...new Set(Object.keys(operations)
+    .filter(name => /\.list(_all)?$/.test(name))
+    .map(name => name.split('.')[0]))]
+    .filter(entity => operations[`${entity}.delete`]);
+
+  if (entities.length === 0) continue;
+
+  describe(plugin.id, () => {
+    for (const entity of entityDeletionOrder(entities)) {
+      const listing = fullListing(plugin, entity);
+
+      // Not a failure, but leftovers there are never found
+      if (typeof listing === 'string') {
+        it.skip(`${entity} → can't be fully listed: ${listing}`, () => {});
+        continue;
+      }
+
+      it.skipIf(!hasCredentials(plugin.id))(`${entity} (${listing.tool})`, async () => {
+        if (!dryRun) {
+          const deleted = await cleanupTestData(plugin, entity, listing);
+          if (deleted > 0) console.log(`  🧹 ${plugin.id}: deleted ${deleted} ${entity} item(s)`);
+          return;
+        }
+
+        const { items, truncated } = await listTestData(plugin, listing);
+        for (const item of items) {
+          console.log(`  ${plugin.id} ${entity} ${item.id}: ${item.title ?? item.name}`);
+        }
+        if (truncated) {
+          console.log(`  ⚠ ${plugin.id} ${listing.tool} returned ${listing.limit} items; later ones weren't checked`);
+        }
+      }, 120000);
+    }
+  });
+}
@@ -0,0 +1,1381 @@
+/**
+ * Plugin and Entity Types
+ *
+ * GENERATED by tests/plugins/scripts/generate-types.ts - do not edit.
+ * Regenerate after changing entity YAML or plugin frontmatter:
+ *   npm run generate:types
+ */
+
+// =============================================================================
+// Entities (entities/)
+// =============================================================================
+
+/** A collection of events */
+export interface Calendar {
+  /** Unique identifier */
+  id: string;
+  /** Calendar name */
+  name: string;
+  /** Display color */
+  color?: string;
+  /** Whether this is the user's primary calendar */
+  is_primary?: boolean;
+  /** Whether this is a subscribed/read-only calendar */
+  is_subscribed?: boolean;
+  /** When calendar was created */
+  created_at?: string;
+  /** When calendar was last updated */
+  updated_at?: string;
+}
+
+/** A person */
+export interface Contact {
+  /** Unique identifier */
+  id: string;
+  /** Full name */
+  name: string;
+  /** Email address */
+  email?: string;
+  /** Phone number */
+  phone?: string;
+  /** Job title */
+  title?: string;
+  /** Profile photo URL */
+  avatar_url?: string;
+  /** Notes about the contact */
+  notes?: string;
+  /** When contact was created */
+  created_at?: string;
+  /** When contact was last updated */
+  updated_at?: string;
+}
+
+/** A thread of messages */
+export interface Conversation {
+  /** Unique identifier */
+  id: string;
+  /** Group name or contact name */
+  name?: string;
+  /** Preview of last message */
+  last_message?: string;
+  /** When last message was sent */
+  last_message_at?: string;
+  /** Number of unread messages */
+  unread_count?: number;
+  /** Conversation avatar/photo */
+  avatar_url?: string;
+  /** Whether this is a group conversation */
+  is_group?: boolean;
+  /** Number of participants */
+  participant_count?: number;
+  /** When conversation was created */
+  created_at?: string;
+  /** When conversation was last updated */
+  updated_at?: string;
+}
+
+/** A calendar event */
+export interface Event {
+  /** Unique identifier */
+  id: string;
+  /** Event title */
+  title: string;
+  /** Event description */
+  description?: string;
+  /** Start time */
+  start: string;
+  /** End time */
+  end?: string;
+  /** Whether this is an all-day event */
+  all_day?: boolean;
+  /** Event location */
+  location?: string;
+  /** Recurrence rule (RRULE format) */
+  recurrence?: string;
+  /** When event was created */
+  created_at?: string;
+  /** When event was last updated */
+  updated_at?: string;
+}
+
+/** A document or media file */
+export interface File {
+  /** Unique identifier */
+  id: string;
+  /** File name */
+  name: string;
+  /** File path or location */
+  path?: string;
+  /** MIME type (e.g., application/pdf, image/png) */
+  mime_type?: string;
+  /** File size in bytes */
+  size?: number;
+  /** Download or access URL */
+  url?: string;
+  /** Thumbnail image URL */
+  thumbnail_url?: string;
+  /** When file was created */
+  created_at?: string;
+  /** When file was last modified */
+  updated_at?: string;
+}
+
+/** A social community or group */
+export interface Group {
+  /** Unique identifier */
+  id: string;
+  /** Group name */
+  name: string;
+  /** Group description/about text */
+  description?: string;
+  /** Group URL */
+  url: string;
+  /** Group icon/avatar URL (subreddit icon, group image, etc.) */
+  icon?: string;
+  /** Member count as string (e.g., "2.3K", "78,000") */
+  member_count?: string;
+  /** Parsed member count as integer (null if parsing fails) */
+  member_count_numeric?: number;
+  /** Privacy setting (OPEN = public, CLOSED = members only, SECRET = hidden) */
+  privacy?: "OPEN" | "CLOSED" | "SECRET";
+  /** When group was created */
+  created_at?: string;
+  /** Last activity timestamp */
+  updated_at?: string;
+  /** Top posts in this group (for group.get views) */
+  posts?: Array<Post>;
+}
+
+/** A tag or category that can be applied to items for organization */
+export interface Label {
+  /** Unique identifier */
+  id: string;
+  /** Label name */
+  name: string;
+  /** Display color (hex or named) */
+  color?: string;
+  /** When label was created */
+  created_at?: string;
+}
+
+/** A chat message */
+export interface Message {
+  /** Unique identifier */
+  id: string;
+  /** Parent conversation ID */
+  conversation_id: string;
+  /** Message content */
+  content: string;
+  /** Sender name */
+  sender: string;
+  /** Whether message was sent by user */
+  is_outgoing?: boolean;
+  /** When message was sent */
+  timestamp: string;
+  /** Delivery status */
+  status?: "sending" | "sent" | "delivered" | "read" | "failed";
+  /** Whether message has been read */
+  read?: boolean;
+  /** When message was read */
+  read_at?: string;
+  /** Media attachments */
+  attachments?: unknown[];
+  /** Emoji reactions */
+  reactions?: unknown[];
+}
+
+/** A text note */
+export interface Note {
+  /** Unique identifier */
+  id: string;
+  /** Note title */
+  title?: string;
+  /** Note content */
+  content: string;
+  /** When note was created */
+  created_at?: string;
+  /** When note was last updated */
+  updated_at?: string;
+}
+
+/** A company, group, or institution */
+export interface Organization {
+  /** Unique identifier */
+  id: string;
+  /** Organization name */
+  name: string;
+  /** Primary website domain */
+  domain?: string;
+  /** Logo image URL */
+  logo_url?: string;
+  /** Industry or sector */
+  industry?: string;
+  /** Organization size category */
+  size?: "small" | "medium" | "large" | "enterprise";
+  /** When organization was created */
+  created_at?: string;
+  /** When organization was last updated */
+  updated_at?: string;
+}
+
+/** A social media post, comment, or reply */
+export interface Post {
+  /** Unique identifier */
+  id: string;
+  /** Post title (null for comments, tweets) */
+  title?: string;
+  /** Post body/text content */
+  content?: string;
+  /** Permalink to the post */
+  url: string;
+  /** Who wrote this post */
+  author?: {
+    /** Username or display name */
+    name: string;
+    /** Profile URL */
+    url?: string;
+    /** Profile image URL */
+    avatar?: string;
+  };
+  /** The community this was posted in */
+  community?: {
+    /** Community name (e.g., "programming") */
+    name?: string;
+    /** Community URL */
+    url?: string;
+  };
+  /** Engagement metrics */
+  engagement?: {
+    /** Net score (upvotes - downvotes) for Reddit, HN */
+    score?: number;
+    /** Like count for Twitter, YouTube */
+    likes?: number;
+    /** View count */
+    views?: number;
+    /** Number of replies/comments */
+    comment_count?: number;
+    /** Retweets, reposts, shares */
+    shares?: number;
+  };
+  /** Parent post/comment ID (null = top-level post) */
+  parent_id?: string;
+  /** Nested reply tree (recursive post structure) */
+  replies?: Array<Post>;
+  /** Whether there are more replies not included */
+  has_more_replies?: boolean;
+  /** When the post was published */
+  published_at?: string;
+  /** When we retrieved this data */
+  fetched_at?: string;
+}
+
+/** A collection of tasks */
+export interface Project {
+  /** Unique identifier */
+  id: string;
+  /** Project name */
+  name: string;
+  /** Project description */
+  description?: string;
+  /** Display color */
+  color?: string;
+  /** Whether project is archived */
+  archived?: boolean;
+  /** When project was archived */
+  archived_at?: string;
+  /** When project was created */
+  created_at?: string;
+  /** When project was last updated */
+  updated_at?: string;
+  /** URL to view this project in the source application */
+  url?: string;
+}
+
+/** A unit of work to be done */
+export interface Task {
+  /** Unique identifier */
+  id: string;
+  /** Task title/summary */
+  title: string;
+  /** Detailed description */
+  description?: string;
+  /** Whether task is done */
+  completed?: boolean;
+  /** When task was completed */
+  completed_at?: string;
+  /** When task is due */
+  due_date?: string;
+  /** Priority level (1=highest) */
+  priority?: number;
+  /** When task was created */
+  created_at?: string;
+  /** When task was last updated */
+  updated_at?: string;
+  /** URL to view this task in the source application */
+  url?: string;
+}
+
+/** Video content with metadata and optional transcript */
+export interface Video {
+  /** Video title */
+  title: string;
+  /** Video description */
+  description?: string;
+  /** Who made this video */
+  creator?: {
+    name: string;
+    url?: string;
+    avatar?: string;
+  };
+  /** Duration in milliseconds */
+  duration_ms?: number;
+  /** Thumbnail image URL */
+  thumbnail?: string;
+  /** Full transcript text (the key artifact for AI) */
+  transcript?: string;
+  /** Chapter markers with timestamps */
+  chapters?: unknown[];
+  /** Video resolution (e.g., 1080p, 4K) */
+  resolution?: string;
+  /** Video codec (e.g., h264, vp9) */
+  codec?: string;
+  /** Where this video exists */
+  sources?: unknown[];
+  /** Number of views (if available from source) */
+  view_count?: number;
+  /** When the video was published */
+  published_at?: string;
+  /** When we retrieved this data */
+  fetched_at?: string;
+}
+
+/** A web page with URL, title, and content */
+export interface Webpage {
+  /** The page URL */
+  url: string;
+  /** Page title */
+  title?: string;
+  /** Page content (markdown or text) */
+  content?: string;
+  /** Short excerpt/description */
+  snippet?: string;
+  /** Site favicon URL */
+  favicon?: string;
+  /** When the content was published */
+  published_at?: string;
+  /** When we retrieved this content */
+  fetched_at?: string;
+  /** MIME type of the content (e.g., text/html, application/json) */
+  content_type?: string;
+}
+
+/** An entity as returned by a plugin (AgentOS tags it with the plugin id) */
+export type FromPlugin<E> = E & { plugin: string };
+
+// =============================================================================
+// Plugin Entities (adapter mappings beyond the entity schema)
+// =============================================================================
+
+export type LinearProject = FromPlugin<Project> & { state?: unknown };
+export type LinearTask = FromPlugin<Task> & { source_id?: unknown; status?: unknown; due?: unknown; _assignee_id?: unknown; _assignee_name?: unknown; _project_id?: unknown; _project_name?: unknown; _team_id?: unknown; _team_name?: unknown; _cycle_id?: unknown; _cycle_number?: unknown; _state_id?: unknown; _state_name?: unknown; _state_type?: unknown; _parent_id?: unknown; _labels?: unknown; _children?: unknown; _blocked_by?: unknown; _blocks?: unknown };
+export type LogoDevFile = FromPlugin<File> & { source_url?: unknown };
+export type TodoistLabel = FromPlugin<Label> & { is_favorite?: unknown };
+export type TodoistTask = FromPlugin<Task> & { _project_id?: unknown; _parent_id?: unknown; _labels?: unknown };
+export type TodoistProject = FromPlugin<Project> & { is_favorite?: unknown; _parent_id?: unknown };
+export type YoutubeVideo = FromPlugin<Video> & { creator_name?: unknown; creator_url?: unknown; source_id?: unknown; source_url?: unknown };
+
+// =============================================================================
+// Plugin Tools (plugins/*/readme.md)
+// =============================================================================
+
+export interface PluginTools {
+  /** Access macOS Calendar via native EventKit APIs */
+  "apple-calendar": {
+    /** List all available calendars */
+    "calendar.list": {
+      params: Record<string, never>;
+      returns: Array<FromPlugin<Calendar>>;
+    };
+    /** Create a new calendar event */
+    "event.create": {
+      params: {
+        /** Event title */
+        title: string;
+        /** Start (YYYY-MM-DD HH:MM or YYYY-MM-DD) */
+        start: string;
+        /** End (defaults to 1 hour after start) */
+        end?: string;
+        /** Create as all-day event */
+        all_day?: boolean;
+        /** Event location */
+        location?: string;
+        /** Event description/notes */
+        description?: string;
+        /** Target calendar name (partial match) */
+        calendar_id?: string;
+      };
+      returns: FromPlugin<Event>;
+    };
+    /** Delete a calendar event */
+    "event.delete": {
+      params: {
+        /** Event ID */
+        id: string;
+      };
+      returns: void;
+    };
+    /** Get full details of a specific event */
+    "event.get": {
+      params: {
+        /** Event ID */
+        id: string;
+      };
+      returns: FromPlugin<Event>;
+    };
+    /** List calendar events within a date range */
+    "event.list": {
+      params: {
+        /** Days from today (1-30) */
+        days?: number;
+        /** Look backward instead of forward */
+        past?: boolean;
+        /** Filter by calendar name (partial match) */
+        calendar_id?: string;
+        /** Search title, location, or description */
+        query?: string;
+        limit?: number;
+        /** Exclude all-day events */
+        exclude_all_day?: boolean;
+      };
+      returns: Array<FromPlugin<Event>>;
+    };
+    /** Update an existing calendar event */
+    "event.update": {
+      params: {
+        /** Event ID */
+        id: string;
+        /** New title */
+        title?: string;
+        /** New start time */
+        start?: string;
+        /** New end time */
+        end?: string;
+        /** New location */
+        location?: string;
+        /** New description */
+        description?: string;
+        /** Move to different calendar */
+        calendar_id?: string;
+      };
+      returns: FromPlugin<Event>;
+    };
+    /** Plugin documentation (built in) */
+    "readme": {
+      params: Record<string, never>;
+      returns: string;
+    };
+  };
+  /** Privacy-focused web search with independent index */
+  brave: {
+    /** Plugin documentation (built in) */
+    "readme": {
+      params: Record<string, never>;
+      returns: string;
+    };
+    /** Search the web using Brave's independent index */
+    "webpage.search": {
+      params: {
+        /** Search query */
+        query: string;
+        /** Number of results (max 20) */
+        limit?: number;
+        /** Filter by date: pd (24h), pw (week), pm (month), py (year) */
+        freshness?: string;
+      };
+      returns: Array<FromPlugin<Webpage>>;
+    };
+  };
+  /** Simple URL fetching using curl (no API key needed) */
+  curl: {
+    /** Plugin documentation (built in) */
+    "readme": {
+      params: Record<string, never>;
+      returns: string;
+    };
+    /** Fetch a URL using curl (simple, no JS rendering) */
+    "webpage.read": {
+      params: {
+        /** URL to fetch */
+        url: string;
+      };
+      returns: FromPlugin<Webpage>;
+    };
+  };
+  /** AI-powered code editor conversation history */
+  cursor: {
+    /** Get a specific message by ID */
+    "get": {
+      params: {
+        message_id: string;
+        conversation_id: string;
+      };
+      returns: unknown;
+    };
+    /** Get a specific conversation with metadata */
+    "get_conversation": {
+      params: {
+        conversation_id: string;
+      };
+      returns: unknown;
+    };
+    /** List messages in a conversation */
+    "list": {
+      params: {
+        conversation_id: string;
+        limit?: number;
+      };
+      returns: unknown;
+    };
+    /** List all AI chat conversations */
+    "list_conversations": {
+      params: {
+        limit?: number;
+      };
+      returns: unknown;
+    };
+    /** Plugin documentation (built in) */
+    "readme": {
+      params: Record<string, never>;
+      returns: string;
+    };
+    /** Search messages across all conversations */
+    "search": {
+      params: {
+        query: string;
+        limit?: number;
+      };
+      returns: unknown;
+    };
+  };
+  /** Semantic web search and content extraction */
+  exa: {
+    /** Plugin documentation (built in) */
+    "readme": {
+      params: Record<string, never>;
+      returns: string;
+    };
+    /** Extract content from a URL */
+    "webpage.read": {
+      params: {
+        /** URL to fetch */
+        url: string;
+      };
+      returns: FromPlugin<Webpage>;
+    };
+    /** Search the web using neural/semantic search */
+    "webpage.search": {
+      params: {
+        /** Search query */
+        query: string;
+        /** Number of results */
+        limit?: number;
+      };
+      returns: Array<FromPlugin<Webpage>>;
+    };
+  };
+  /** Query public Facebook group information without login */
+  facebook: {
+    /** Get metadata for a public Facebook group */
+    "group.get": {
+      params: {
+        /** Group name or URL (e.g., 'becomingaportuguesecitizen' or full URL) */
+        group: string;
+        /** Include member count (requires Chromium, slower ~2-3s) */
+        include_members?: boolean;
+      };
+      returns: FromPlugin<Group>;
+    };
+    /** Plugin documentation (built in) */
+    "readme": {
+      params: Record<string, never>;
+      returns: string;
+    };
+  };
+  /** Web scraping with browser rendering for JS-heavy sites */
+  firecrawl: {
+    /** Plugin documentation (built in) */
+    "readme": {
+      params: Record<string, never>;
+      returns: string;
+    };
+    /** Scrape a URL with browser rendering (handles JS-heavy sites) */
+    "webpage.read": {
+      params: {
+        /** URL to scrape */
+        url: string;
+        /** Milliseconds to wait for JS (0=fast, 1000+=for SPAs) */
+        wait_for_js?: number;
+        /** Request timeout in ms */
+        timeout?: number;
+      };
+      returns: FromPlugin<Webpage>;
+    };
+  };
+  /** Modern alternative to Goodreads for tracking your reading */
+  hardcover: {
+    "create": {
+      params: Record<string, never>;
+      returns: unknown;
+    };
+    "delete": {
+      params: Record<string, never>;
+      returns: unknown;
+    };
+    "pull": {
+      params: Record<string, never>;
+      returns: unknown;
+    };
+    "push": {
+      params: Record<string, never>;
+      returns: unknown;
+    };
+    /** Plugin documentation (built in) */
+    "readme": {
+      params: Record<string, never>;
+      returns: string;
+    };
+    "search": {
+      params: Record<string, never>;
+      returns: unknown;
+    };
+    "update": {
+      params: Record<string, never>;
+      returns: unknown;
+    };
+  };
+  /** Read iMessages and SMS from macOS Messages app */
+  imessage: {
+    /** Get a specific message by ID */
+    "get": {
+      params: {
+        message_id: string;
+      };
+      returns: unknown;
+    };
+    /** Get attachments for a message */
+    "get_attachments": {
+      params: {
+        message_id: string;
+      };
+      returns: unknown;
+    };
+    /** Get a specific conversation with participants */
+    "get_conversation": {
+      params: {
+        conversation_id: string;
+      };
+      returns: unknown;
+    };
+    /** Get all unread messages */
+    "get_unread": {
+      params: {
+        limit?: number;
+      };
+      returns: unknown;
+    };
+    /** List messages in a conversation */
+    "list": {
+      params: {
+        conversation_id: string;
+        limit?: number;
+      };
+      returns: unknown;
+    };
+    /** List all conversations */
+    "list_conversations": {
+      params: {
+        limit?: number;
+      };
+      returns: unknown;
+    };
+    /** Plugin documentation (built in) */
+    "readme": {
+      params: Record<string, never>;
+      returns: string;
+    };
+    /** Search messages by text content */
+    "search": {
+      params: {
+        query: string;
+        limit?: number;
+      };
+      returns: unknown;
+    };
+  };
+  /** Read and send Instagram direct messages via private API */
+  instagram: {
+    /** Hide/archive a conversation */
+    "archive": {
+      params: {
+        conversation_id: string;
+      };
+      returns: unknown;
+    };
+    /** Unsend/delete a message */
+    "delete": {
+      params: {
+        conversation_id: string;
+        message_id: string;
+      };
+      returns: unknown;
+    };
+    /** Get a specific message */
+    "get": {
+      params: {
+        message_id: string;
+        conversation_id: string;
+      };
+      returns: unknown;
+    };
+    /** Get conversation details */
+    "get_conversation": {
+      params: {
+        conversation_id: string;
+      };
+      returns: unknown;
+    };
+    /** Check if users are online */
+    "get_presence": {
+      params: {
+        user_ids: Array<string>;
+      };
+      returns: unknown;
+    };
+    /** Get unread messages */
+    "get_unread": {
+      params: {
+        limit?: number;
+      };
+      returns: unknown;
+    };
+    /** List messages in a conversation */
+    "list": {
+      params: {
+        conversation_id: string;
+        limit?: number;
+      };
+      returns: unknown;
+    };
+    /** List all Instagram DM conversations */
+    "list_conversations": {
+      params: {
+        limit?: number;
+        filter?: "" | "unread" | "flagged";
+      };
+      returns: unknown;
+    };
+    /** Mark a message as seen/read */
+    "mark_read": {
+      params: {
+        conversation_id: string;
+        message_id: string;
+      };
+      returns: unknown;
+    };
+    /** Mark a conversation as unread */
+    "mark_unread": {
+      params: {
+        conversation_id: string;
+      };
+      returns: unknown;
+    };
+    /** Mute conversation notifications */
+    "mute": {
+      params: {
+        conversation_id: string;
+      };
+      returns: unknown;
+    };
+    /** React to a message with an emoji */
+    "react": {
+      params: {
+        conversation_id: string;
+        message_id: string;
+        /** Emoji character (❤️ 😂 😮 😢 😡 👍) */
+        emoji: string;
+      };
+      returns: unknown;
+    };
+    /** Plugin documentation (built in) */
+    "readme": {
+      params: Record<string, never>;
+      returns: string;
+    };
+    /** Search messages by text */
+    "search": {
+      params: {
+        query: string;
+        limit?: number;
+      };
+      returns: unknown;
+    };
+    /** Send a message to an existing conversation */
+    "send": {
+      params: {
+        conversation_id: string;
+        text: string;
+        /** Message ID to reply to */
+        reply_to?: string;
+      };
+      returns: unknown;
+    };
+    /** Start a new conversation with a user */
+    "send_to_user": {
+      params: {
+        /** Instagram user ID (pk) */
+        user_id: string;
+        text: string;
+      };
+      returns: unknown;
+    };
+    /** Show typing indicator (call periodically while typing) */
+    "send_typing": {
+      params: {
+        conversation_id: string;
+      };
+      returns: unknown;
+    };
+    /** Unmute conversation notifications */
+    "unmute": {
+      params: {
+        conversation_id: string;
+      };
+      returns: unknown;
+    };
+    /** Remove a reaction from a message */
+    "unreact": {
+      params: {
+        conversation_id: string;
+        message_id: string;
+      };
+      returns: unknown;
+    };
+  };
+  /** Project management for engineering teams */
+  linear: {
+    /** Add a blocking relationship (blocker_id blocks id). Returns relation_id for removal. */
+    "add_blocker": {
+      params: {
+        /** Issue being blocked */
+        id: string;
+        /** Issue that is blocking */
+        blocker_id: string;
+      };
+      returns: {
+        success: boolean;
+        relation_id: string;
+      };
+    };
+    /** Link two issues as related. Returns relation_id for removal. */
+    "add_related": {
+      params: {
+        /** First issue ID */
+        id: string;
+        /** Second issue ID */
+        related_id: string;
+      };
+      returns: {
+        success: boolean;
+        relation_id: string;
+      };
+    };
+    /** List cycles (sprints) for a team */
+    "get_cycles": {
+      params: {
+        /** Team ID */
+        team_id: string;
+      };
+      returns: Array<{
+        id: string;
+        number: number;
+        startsAt: string;
+        endsAt: string;
+      }>;
+    };
+    /** Get an issue's relationships (blocking, blocked by, related). Returns relation_id needed for remove_relation. */
+    "get_relations": {
+      params: {
+        /** Issue ID */
+        id: string;
+      };
+      returns: {
+        blocks: unknown[];
+        blocked_by: unknown[];
+        related: unknown[];
+      };
+    };
+    /** List all teams (needed to create issues) */
+    "get_teams": {
+      params: Record<string, never>;
+      returns: Array<{
+        id: string;
+        key: string;
+        name: string;
+      }>;
+    };
+    /** List workflow states for a team */
+    "get_workflow_states": {
+      params: {
+        /** Team ID */
+        team_id: string;
+      };
+      returns: Array<{
+        id: string;
+        name: string;
+        type: string;
+        position: number;
+      }>;
+    };
+    /** List all projects */
+    "project.list": {
+      params: Record<string, never>;
+      returns: Array<LinearProject>;
+    };
+    /** Plugin documentation (built in) */
+    "readme": {
+      params: Record<string, never>;
+      returns: string;
+    };
+    /** Remove a relationship by its ID (get relation_id from add_blocker/add_related response or issue query) */
+    "remove_relation": {
+      params: {
+        /** Relation ID to delete */
+        relation_id: string;
+      };
+      returns: {
+        success: boolean;
+      };
+    };
+    /** Create a new issue */
+    "task.create": {
+      params: {
+        /** Team ID (use get_teams to find) */
+        team_id: string;
+        /** Issue title */
+        title: string;
+        /** Issue description (markdown) */
+        description?: string;
+        /** Priority 0-4 (0=none, 1=urgent, 4=low) */
+        priority?: number;
+        /** Project ID */
+        project_id?: string;
+        /** Parent issue ID (for sub-issues) */
+        parent_id?: string;
+        /** Due date (ISO format) */
+        due?: string;
+      };
+      returns: LinearTask;
+    };
+    /** Delete an issue */
+    "task.delete": {
+      params: {
+        /** Issue ID */
+        id: string;
+      };
+      returns: void;
+    };
+    /** Get a specific issue by ID */
+    "task.get": {
+      params: {
+        /** Issue ID */
+        id: string;
+      };
+      returns: LinearTask;
+    };
+    /** List issues with optional filters */
+    "task.list": {
+      params: {
+        /** Max issues to return */
+        limit?: number;
+        /** Filter by team ID */
+        team_id?: string;
+        /** Filter by workflow state ID */
+        state_id?: string;
+      };
+      returns: Array<LinearTask>;
+    };
+    /** Update an existing issue */
+    "task.update": {
+      params: {
+        /** Issue ID */
+        id: string;
+        /** New title */
+        title?: string;
+        /** New description */
+        description?: string;
+        /** New priority 0-4 */
+        priority?: number;
+        /** New workflow state ID */
+        state_id?: string;
+        /** New due date */
+        due?: string;
+      };
+      returns: LinearTask;
+    };
+    /** Get current authenticated user (for credential verification) */
+    "whoami": {
+      params: Record<string, never>;
+      returns: {
+        id: string;
+        name: string;
+        email: string;
+      };
+    };
+  };
+  /** Company logos via CDN - lookup by domain, ticker, or name */
+  "logo-dev": {
+    /** Download logo to ~/.agentos/downloads/ */
+    "file.download": {
+      params: {
+        /** Domain (e.g., shopify.com) */
+        domain: string;
+        /** Size in pixels (16-800) */
+        size?: number;
+        /** Image format (jpg, png, webp) */
+        format?: string;
+      };
+      returns: LogoDevFile;
+    };
+    /** Generate CDN URL for a company logo */
+    "logo_url": {
+      params: {
+        /** Domain (e.g., shopify.com) */
+        domain: string;
+        /** Size in pixels (16-800) */
+        size?: number;
+        /** Image format (jpg, png, webp) */
+        format?: string;
+        /** Theme (auto, light, dark) */
+        theme?: string;
+        /** Double resolution for retina */
+        retina?: boolean;
+      };
+      returns: unknown;
+    };
+    /** Generate CDN URL for a company logo by name */
+    "name_logo_url": {
+      params: {
+        /** Company name (e.g., Shopify) */
+        name: string;
+        /** Size in pixels */
+        size?: number;
+        /** Image format */
+        format?: string;
+      };
+      returns: unknown;
+    };
+    /** Plugin documentation (built in) */
+    "readme": {
+      params: Record<string, never>;
+      returns: string;
+    };
+    /** Generate CDN URL for a company logo by stock ticker */
+    "ticker_logo_url": {
+      params: {
+        /** Stock ticker (e.g., AAPL) */
+        ticker: string;
+        /** Size in pixels */
+        size?: number;
+        /** Image format */
+        format?: string;
+      };
+      returns: unknown;
+    };
+  };
+  /** Connect to MySQL and MariaDB databases */
+  mysql: {
+    "describe": {
+      params: Record<string, never>;
+      returns: unknown;
+    };
+    "query": {
+      params: Record<string, never>;
+      returns: unknown;
+    };
+    /** Plugin documentation (built in) */
+    "readme": {
+      params: Record<string, never>;
+      returns: string;
+    };
+    "tables": {
+      params: Record<string, never>;
+      returns: unknown;
+    };
+  };
+  /** Read public Reddit communities, posts, and comments */
+  reddit: {
+    /** Get a subreddit with its top posts */
+    "group.get": {
+      params: {
+        /** Subreddit name (without r/) */
+        subreddit: string;
+        /** Number of posts to include */
+        limit?: number;
+      };
+      returns: FromPlugin<Group>;
+    };
+    /** Search for subreddits (communities) */
+    "group.search": {
+      params: {
+        /** Search query */
+        query: string;
+        /** Number of results (max 100) */
+        limit?: number;
+      };
+      returns: Array<FromPlugin<Group>>;
+    };
+    /** Get a Reddit post with comments */
+    "post.get": {
+      params: {
+        /** Post ID (e.g., 'abc123') */
+        id: string;
+        /** Max comments to fetch */
+        comment_limit?: number;
+      };
+      returns: FromPlugin<Post>;
+    };
+    /** List posts from a subreddit */
+    "post.list": {
+      params: {
+        /** Subreddit name (without r/) */
+        subreddit: string;
+        /** Sort by: hot, new, top, rising */
+        sort?: string;
+        /** Number of posts (max 100) */
+        limit?: number;
+      };
+      returns: Array<FromPlugin<Post>>;
+    };
+    /** Search posts across Reddit */
+    "post.search": {
+      params: {
+        /** Search query */
+        query: string;
+        /** Number of results (max 100) */
+        limit?: number;
+        /** Sort by: relevance, hot, top, new, comments */
+        sort?: string;
+      };
+      returns: Array<FromPlugin<Post>>;
+    };
+    /** Plugin documentation (built in) */
+    "readme": {
+      params: Record<string, never>;
+      returns: string;
+    };
+  };
+  /** Connect to SQLite database files */
+  sqlite: {
+    "describe": {
+      params: Record<string, never>;
+      returns: unknown;
+    };
+    "query": {
+      params: Record<string, never>;
+      returns: unknown;
+    };
+    /** Plugin documentation (built in) */
+    "readme": {
+      params: Record<string, never>;
+      returns: string;
+    };
+    "tables": {
+      params: Record<string, never>;
+      returns: unknown;
+    };
+  };
+  /** Personal task management */
+  todoist: {
+    /** List all labels */
+    "label.list": {
+      params: Record<string, never>;
+      returns: Array<TodoistLabel>;
+    };
+    /** Move task to a different project, section, or parent */
+    "move_task": {
+      params: {
+        /** Task ID to move */
+        id: string;
+        /** Target project ID */
+        project_id?: string;
+        /** Target section ID */
+        section_id?: string;
+        /** Target parent task ID */
+        parent_id?: string;
+      };
+      returns: TodoistTask;
+    };
+    /** List all projects */
+    "project.list": {
+      params: Record<string, never>;
+      returns: Array<TodoistProject>;
+    };
+    /** Plugin documentation (built in) */
+    "readme": {
+      params: Record<string, never>;
+      returns: string;
+    };
+    /** Mark a task as complete */
+    "task.complete": {
+      params: {
+        /** Task ID */
+        id: string;
+      };
+      returns: void;
+    };
+    /** Create a new task */
+    "task.create": {
+      params: {
+        /** Task title */
+        title: string;
+        /** Task description */
+        description?: string;
+        /** Due date (natural language like 'tomorrow') */
+        due?: string;
+        /** Priority 1 (highest) to 4 (lowest) */
+        priority?: number;
+        /** Project ID */
+        project_id?: string;
+        /** Parent task ID (for subtasks) */
+        parent_id?: string;
+        /** Label names */
+        labels?: unknown[];
+      };
+      returns: TodoistTask;
+    };
+    /** Delete a task */
+    "task.delete": {
+      params: {
+        /** Task ID */
+        id: string;
+      };
+      returns: void;
+    };
+    /** Get tasks matching a Todoist filter query */
+    "task.filter": {
+      params: {
+        /** Todoist filter (e.g., 'today', 'overdue', '7 days') */
+        query: string;
+      };
+      returns: Array<TodoistTask>;
+    };
+    /** Get a specific task by ID */
+    "task.get": {
+      params: {
+        /** Task ID */
+        id: string;
+      };
+      returns: TodoistTask;
+    };
+    /** List actionable tasks (due today, overdue, or in inbox) */
+    "task.list": {
+      params: {
+        /** Todoist filter query */
+        query?: string;
+      };
+      returns: Array<TodoistTask>;
+    };
+    /** List all tasks with optional filters (no smart defaults) */
+    "task.list_all": {
+      params: {
+        /** Filter by project ID */
+        project_id?: string;
+        /** Filter by section ID */
+        section_id?: string;
+        /** Filter by parent task ID */
+        parent_id?: string;
+        /** Filter by label name */
+        label?: string;
+      };
+      returns: Array<TodoistTask>;
+    };
+    /** Reopen a completed task */
+    "task.reopen": {
+      params: {
+        /** Task ID */
+        id: string;
+      };
+      returns: void;
+    };
+    /** Update an existing task (including moving to different project) */
+    "task.update": {
+      params: {
+        /** Task ID */
+        id: string;
+        /** New title */
+        title?: string;
+        /** New description */
+        description?: string;
+        /** New due date */
+        due?: string;
+        /** New priority 1 (highest) to 4 (lowest) */
+        priority?: number;
+        /** New labels */
+        labels?: unknown[];
+        /** Move to different project */
+        project_id?: string;
+      };
+      returns: TodoistTask;
+    };
+  };
+  /** Get video metadata and transcripts using yt-dlp */
+  youtube: {
+    /** Plugin documentation (built in) */
+    "readme": {
+      params: Record<string, never>;
+      returns: string;
+    };
+    /** Get video metadata (title, creator, thumbnail, duration) */
+    "video.get": {
+      params: {
+        /** YouTube video URL */
+        url: string;
+      };
+      returns: YoutubeVideo;
+    };
+    /** List the latest 20 videos from a YouTube channel or playlist */
+    "video.list": {
+      params: {
+        /** YouTube channel URL (e.g., youtube.com/@channelname) or playlist URL */
+        url: string;
+      };
+      returns: Array<YoutubeVideo>;
+    };
+    /** Search YouTube videos by query (returns 10 results sorted by relevance) */
+    "video.search": {
+      params: {
+        /** Search query */
+        query: string;
+      };
+      returns: Array<YoutubeVideo>;
+    };
+    /** Search YouTube videos by query (returns 10 results sorted by upload date, newest first) */
+    "video.search_recent": {
+      params: {
+        /** Search query */
+        query: string;
+      };
+      returns: Array<YoutubeVideo>;
+    };
+    /** Get video transcript from auto-generated captions */
+    "video.transcript": {
+      params: {
+        /** YouTube video URL */
+        url: string;
+        /** Language code (e.g., en, es, fr) */
+        lang?: string;
+      };
+      returns: YoutubeVideo;
+    };
+  };
+}
@@ -0,0 +1,212 @@
+/**
+ * AgentOS Binary Discovery
+ *
+ * Finds the AgentOS binary both test clients spawn, in order:
+ * 1. AGENTOS_BIN env var (must exist - no silent fallback)
+ * 2. ~/dev/agentos/target/debug/agentos   (cargo build)
+ * 3. ~/dev/agentos/target/release/agentos (cargo build --release)
+ * 4. `agentos` on PATH
+ * 5. /Applications/AgentOS.app/Contents/MacOS/agentos
+ *
+ * Local builds come before PATH, so a fresh `cargo build` wins over an
+ * older installed agentos. The chosen binary is logged once per run.
+ *
+ * Then runs `agentos --version` and refuses binaries older than
+ * MIN_AGENTOS_VERSION, so a build that can't run the harness fails up
+ * front with instructions instead of as an opaque spawn error mid-suite.
+ * Version numbers don't say which features a local build has, so once the
+ * server is up, requireCapabilities() checks the ones the harness relies
+ * on directly (structured error codes, activity metadata).
+ */
+
+import { accessSync, constants, existsSync } from 'fs';
+import { execFileSync } from 'child_process';
+import { basename, delimiter, dirname, join } from 'path';
+import { homedir } from 'os';
+import { loadPlugins } from './plugins';
+
+/**
+ * Oldest AgentOS version the harness accepts. Features that arrived in
+ * later builds are checked on the running server (requireCapabilities).
+ */
+export const MIN_AGENTOS_VERSION = '0.1.0';
+
+const AGENTOS_REPO = join(homedir(), 'dev', 'agentos');
+
+export interface AgentOSBinary {
+  path: string;
+  version: string;
+  /** Working directory for `agentos serve` / `agentos mcp` */
+  cwd: string;
+}
+
+export class AgentOSBinaryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AgentOSBinaryError';
+  }
+}
+
+const HOW_TO_FIX =
+  'Build it:       cd ~/dev/agentos && cargo build\n' +
+  'Or point to it: AGENTOS_BIN=/path/to/agentos npm test';
+
+function isExecutable(path: string): boolean {
+  try {
+    accessSync(path, constants.X_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function findOnPath(name: string): string | null {
+  for (const dir of (process.env.PATH || '').split(delimiter)) {
+    if (!dir) continue;
+    const candidate = join(dir, name);
+    if (isExecutable(candidate)) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Locate the AgentOS binary (no version check)
+ * @throws AgentOSBinaryError listing every location checked
+ */
+export function findAgentOS(): string {
+  const fromEnv = process.env.AGENTOS_BIN;
+  if (fromEnv) {
+    if (!isExecutable(fromEnv)) {
+      throw new AgentOSBinaryError(
+        `AGENTOS_BIN=${fromEnv} ${existsSync(fromEnv) ? 'is not executable' : 'does not exist'}.\n` +
+        HOW_TO_FIX
+      );
+    }
+    return fromEnv;
+  }
+
+  const builds = [
+    join(AGENTOS_REPO, 'target', 'debug', 'agentos'),
+    join(AGENTOS_REPO, 'target', 'release', 'agentos'),
+  ];
+  const app = '/Applications/AgentOS.app/Contents/MacOS/agentos';
+
+  const found = builds.find(isExecutable) ?? findOnPath('agentos') ?? (isExecutable(app) ? app : null);
+  if (found) return found;
+
+  throw new AgentOSBinaryError(
+    'AgentOS binary not found. Checked:\n' +
+    '  $AGENTOS_BIN (unset)\n' +
+    builds.map(l => `  ${l}`).join('\n') + '\n' +
+    '  agentos on $PATH\n' +
+    `  ${app}\n` +
+    HOW_TO_FIX
+  );
+}
+
+/** Compare dotted versions (-1, 0, 1), ignoring pre-release suffixes */
+export function compareVersions(a: string, b: string): number {
+  const parse = (v: string) => v.split('-')[0].split('.').map(n => parseInt(n, 10) || 0);
+  const [pa, pb] = [parse(a), parse(b)];
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return Math.sign(diff);
+  }
+  return 0;
+}
+
+/** Working directory for a binary: its cargo workspace, if it's a build output */
+function workingDir(binary: string): string {
+  const targetDir = dirname(dirname(binary));
+  if (basename(targetDir) === 'target') return dirname(targetDir);
+  return existsSync(AGENTOS_REPO) ? AGENTOS_REPO : dirname(binary);
+}
+
+const resolved = new Map<string, AgentOSBinary>();
+
+/**
+ * Find the binary (or use the given one) and check its version
+ * @throws AgentOSBinaryError if missing, not AgentOS, or too old
+ */
+export function resolveAgentOS(command?: string): AgentOSBinary {
+  const path = command || findAgentOS();
+
+  const cached = resolved.get(path);
+  if (cached) return cached;
+
+  let output: string;
+  try {
+    output = execFileSync(path, ['--version'], { encoding: 'utf-8', timeout: 10000 }).trim();
+  } catch (e) {
+    throw new AgentOSBinaryError(
+      `Version check failed: ${path} --version\n` +
+      `  ${(e as Error).message.split('\n')[0]}\n` +
+      `Is this an AgentOS build from ${MIN_AGENTOS_VERSION} or later?\n` +
+      HOW_TO_FIX
+    );
+  }
+
+  const version = output.match(/\d+\.\d+\.\d+(?:-[\w.]+)?/)?.[0];
+  if (!version) {
+    throw new AgentOSBinaryError(
+      `Unrecognized version output from ${path} --version: '${output}'\n` + HOW_TO_FIX
+    );
+  }
+
+  if (compareVersions(version, MIN_AGENTOS_VERSION) < 0) {
+    throw new AgentOSBinaryError(
+      `AgentOS ${version} at ${path} is too old (tests need ${MIN_AGENTOS_VERSION} or later).\n` +
+      'Rebuild it: cd ~/dev/agentos && git pull && cargo build'
+    );
+  }
+
+  const binary = { path, version, cwd: workingDir(path) };
+  resolved.set(path, binary);
+  console.log(`🔧 AgentOS ${version} at ${path}`);
+  return binary;
+}
+
+/** Features the harness relies on, as observed on a started server */
+export interface ServerCapabilities {
+  /** Failed calls carry a structured `code` (see errors.ts) */
+  errorCodes: boolean;
+  /** Successful calls carry `activity` metadata */
+  activity: boolean;
+}
+
+/**
+ * A call the server must reject: a tool with a required param, called
+ * without it. Prefers plugins without auth, so no credential is touched.
+ * @param loaded Plugin ids the server loaded (see readiness.ts)
+ */
+export function capabilityProbe(loaded: string[]): { plugin: string; tool: string } | null {
+  const plugins = loadPlugins()
+    .filter(plugin => loaded.includes(plugin.id))
+    .sort((a, b) => Number(!!a.config.auth) - Number(!!b.config.auth));
+  for (const plugin of plugins) {
+    const tools = { ...plugin.config.operations, ...plugin.config.utilities };
+    for (const [tool, def] of Object.entries(tools)) {
+      const params = Object.values(def.params || {});
+      if (params.some(p => p?.required && p.default === undefined)) return { plugin: plugin.id, tool };
+    }
+  }
+  return null;
+}
+
+/**
+ * Fail up front when a server lacks a feature the harness relies on
+ * @throws AgentOSBinaryError naming what's missing
+ */
+export function requireCapabilities(binary: AgentOSBinary, capabilities: ServerCapabilities): void {
+  const missing = [
+    !capabilities.errorCodes && 'a structured `code` on failed calls (typed errors, see errors.ts)',
+    !capabilities.activity && '`activity` metadata on tool call responses',
+  ].filter((m): m is string => !!m);
+  if (missing.length === 0) return;
+
+  throw new AgentOSBinaryError(
+    `AgentOS ${binary.version} at ${binary.path} is missing what the tests rely on:\n` +
+    missing.map(m => `  ${m}`).join('\n') + '\n' +
+    'Rebuild it: cd ~/dev/agentos && git pull && cargo build'
+  );
+}
@@ -0,0 +1,328 @@
+/**
+ * Tool Call Cassettes
+ *
+ * Records every /api/tools/call request/response pair to fixture files,
+ * and replays them later without spawning the AgentOS server.
+ *
+ * Modes (AGENTOS_CASSETTE env var):
+ * - record: call the live server and save every interaction
+ * - replay: serve saved interactions, fail loudly on unmatched calls
+ * - (unset): live calls only, nothing saved
+ *
+ * One cassette per plugin and test file:
+ *   plugins/{plugin}/tests/fixtures/cassettes/{suite}.json
+ * where {suite} is the calling test file (todoist.test.ts → todoist).
+ *
+ * Replay matches exactly: same test, plugin, tool and normalized arguments,
+ * consumed in recorded order, so a list before and after a create returns
+ * the two recorded results. A call the test didn't make while recording,
+ * or makes more often, fails instead of getting some other call's response.
+ *
+ * Recordings are scrubbed before they're written: ids become stable
+ * placeholders, emails example.com addresses, secrets <scrubbed> (see
+ * Scrubber). Replayed arguments are scrubbed the same way before matching.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { basename, dirname, join, relative } from 'path';
+import { fileURLToPath } from 'url';
+import { expect } from 'vitest';
+import type { ToolCallResponse } from './http-client';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '../..');
+const PLUGINS_DIR = join(ROOT, 'plugins');
+
+/** Pseudo-plugin for calls that aren't UsePlugin (e.g. core tools) */
+const CORE_PLUGIN = '_core';
+
+/** Test name used for calls made from hooks (beforeAll, afterAll) */
+const HOOK_TEST = '(hook)';
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteInteraction {
+  /** Full test name that made the call */
+  test: string;
+  plugin: string;
+  /** Plugin tool (e.g. task.list) or core tool name */
+  tool: string;
+  /** Normalized tool arguments */
+  arguments: unknown;
+  /** Successful server response */
+  response?: ToolCallResponse;
+  /** Failed server response (replayed as HttpError) */
+  error?: { message: string; status: number; data?: unknown };
+}
+
+interface CassetteFile {
+  version: 1;
+  plugin: string;
+  suite: string;
+  /** What answered while recording (setup.ts won't record from the fixture server) */
+  server?: 'agentos';
+  interactions: CassetteInteraction[];
+}
+
+export class CassetteMissError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CassetteMissError';
+  }
+}
+
+/** Read the cassette mode from AGENTOS_CASSETTE (undefined = live) */
+export function cassetteModeFromEnv(): CassetteMode | undefined {
+  const mode = process.env.AGENTOS_CASSETTE;
+  if (!mode) return undefined;
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error(`Invalid AGENTOS_CASSETTE: '${mode}' (expected 'record' or 'replay')`);
+  }
+  return mode;
+}
+
+/** Path of the cassette file for a plugin and suite */
+export function cassettePath(plugin: string, suite: string): string {
+  if (plugin === CORE_PLUGIN) {
+    return join(ROOT, 'tests', 'fixtures', 'cassettes', `${suite}.json`);
+  }
+  return join(PLUGINS_DIR, plugin, 'tests', 'fixtures', 'cassettes', `${suite}.json`);
+}
+
+// Matches the unique suffix from testId() (timestamp_random), so generated
+// test content like "[TEST] my task 1712345678901_ab12cd" replays stably
+const TEST_ID_PATTERN = /(?<!\d)\d{13}_[a-z0-9]+/g;
+
+/**
+ * Normalize arguments for matching: sorted keys, no undefined values,
+ * and testId() suffixes replaced with a placeholder.
+ */
+export function normalizeArguments(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.replace(TEST_ID_PATTERN, '<testId>');
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalizeArguments);
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      const v = (value as Record<string, unknown>)[key];
+      if (v !== undefined) result[key] = normalizeArguments(v);
+    }
+    return result;
+  }
+  return value;
+}
+
+/** Values under these keys are secrets */
+const SECRET_KEY = /token|secret|password|api_?key|authorization|cookie|credential/i;
+/** Values under these keys are ids (id, user_id, label_ids) */
+const ID_KEY = /(^|_)ids?$/i;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+
+const SCRUBBED = '<scrubbed>';
+const ID_PLACEHOLDER = /^id-[0-9a-f]{10}$/;
+// Numeric ids map into [9e11, 1e12): still integers, and recognizable as
+// placeholders so scrubbing one again leaves it alone
+const NUMERIC_ID_BASE = 9e11;
+const NUMERIC_ID_RANGE = 1e11;
+
+function digest(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Replaces account data in recorded calls. Placeholders are derived from
+ * the value, so an id gets the same one in every argument and response
+ * (and a replayed call made with a real id still matches). Scrubbing is
+ * idempotent: placeholders scrub to themselves.
+ */
+export class Scrubber {
+  /** String ids seen so far, replaced where they appear inside other strings (URLs) */
+  private ids = new Map<string, string>();
+
+  private id(value: string | number): string | number {
+    if (typeof value === 'number') {
+      if (!Number.isInteger(value) || (value >= NUMERIC_ID_BASE && value < NUMERIC_ID_BASE + NUMERIC_ID_RANGE)) {
+        return value;
+      }
+      return NUMERIC_ID_BASE + (parseInt(digest(String(value)).slice(0, 12), 16) % NUMERIC_ID_RANGE);
+    }
+    if (ID_PLACEHOLDER.test(value) || value === '') return value;
+    const placeholder = `id-${digest(value).slice(0, 10)}`;
+    // Short ids (1, 42) would match inside unrelated strings
+    if (value.length >= 6) this.ids.set(value, placeholder);
+    return placeholder;
+  }
+
+  private text(value: string): string {
+    let result = this.ids.get(value) ?? value;
+    for (const [id, placeholder] of this.ids) {
+      if (result.includes(id)) result = result.split(id).join(placeholder);
+    }
+    return result.replace(EMAIL_PATTERN, email =>
+      email.endsWith('@example.com') ? email : `user-${digest(email.toLowerCase()).slice(0, 8)}@example.com`
+    );
+  }
+
+  /** Record the ids under id keys, so the second pass also finds them in free text */
+  private collect(value: unknown, key = ''): void {
+    if (Array.isArray(value)) {
+      value.forEach(item => this.collect(item, key));
+    } else if (value && typeof value === 'object') {
+      for (const [k, v] of Object.entries(value)) this.collect(v, k);
+    } else if (ID_KEY.test(key) && (typeof value === 'string' || typeof value === 'number')) {
+      this.id(value);
+    }
+  }
+
+  private replace(value: unknown, key = ''): unknown {
+    if (Array.isArray(value)) return value.map(item => this.replace(item, key));
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, this.replace(v, k)]));
+    }
+    if (typeof value === 'string' && SECRET_KEY.test(key)) return SCRUBBED;
+    if (ID_KEY.test(key) && (typeof value === 'string' || typeof value === 'number')) return this.id(value);
+    if (typeof value === 'string') return this.text(value);
+    return value;
+  }
+
+  /** Scrubbed copy of a value (arguments, a response, an error) */
+  scrub<T>(value: T): T {
+    this.collect(value);
+    return this.replace(value) as T;
+  }
+}
+
+/** Split a tool call into the plugin, tool and arguments used for matching */
+function describeCall(tool: string, args: Record<string, unknown>) {
+  if (tool === 'UsePlugin' && typeof args.plugin === 'string') {
+    const { plugin, tool: pluginTool, ...rest } = args;
+    return { plugin, tool: String(pluginTool), arguments: normalizeArguments(rest) };
+  }
+  return { plugin: CORE_PLUGIN, tool, arguments: normalizeArguments(args) };
+}
+
+/** Current test name and suite, from vitest's expect state */
+function currentTest(): { test: string; suite: string } {
+  const state = expect.getState();
+  const suite = state.testPath ? basename(state.testPath).replace(/\.test\.ts$/, '') : 'default';
+  // Vitest prefixes test names with the file path - the suite already covers it
+  const test = state.currentTestName?.replace(/^.*?\.test\.ts > /, '');
+  return { test: test || HOOK_TEST, suite };
+}
+
+export class Cassette {
+  readonly mode: CassetteMode;
+  private files = new Map<string, CassetteFile>();
+  private dirty = new Set<string>();
+  private consumed = new Map<string, Set<number>>();
+  private scrubbers = new Map<string, Scrubber>();
+
+  constructor(mode: CassetteMode) {
+    this.mode = mode;
+  }
+
+  private load(plugin: string, suite: string): CassetteFile {
+    const path = cassettePath(plugin, suite);
+    let file = this.files.get(path);
+    if (file) return file;
+
+    if (this.mode === 'replay' && existsSync(path)) {
+      file = JSON.parse(readFileSync(path, 'utf-8')) as CassetteFile;
+    } else {
+      // Recording always starts from an empty cassette for this run
+      file = { version: 1, plugin, suite, server: 'agentos', interactions: [] };
+    }
+
+    this.files.set(path, file);
+    return file;
+  }
+
+  private scrubber(path: string): Scrubber {
+    let scrubber = this.scrubbers.get(path);
+    if (!scrubber) {
+      scrubber = new Scrubber();
+      this.scrubbers.set(path, scrubber);
+    }
+    return scrubber;
+  }
+
+  /**
+   * Save an interaction from a live call (record mode)
+   */
+  record(
+    tool: string,
+    args: Record<string, unknown>,
+    outcome: Pick<CassetteInteraction, 'response' | 'error'>
+  ): void {
+    const call = describeCall(tool, args);
+    const { test, suite } = currentTest();
+    const path = cassettePath(call.plugin, suite);
+    const file = this.load(call.plugin, suite);
+
+    // Arguments and outcome together, so ids from either are found in both
+    const scrubbed = this.scrubber(path).scrub({ arguments: call.arguments, ...outcome });
+    file.interactions.push({ test, plugin: call.plugin, tool: call.tool, ...scrubbed });
+    this.dirty.add(path);
+  }
+
+  /**
+   * Find the recorded interaction for a call (replay mode)
+   * @throws CassetteMissError if nothing matches
+   */
+  replay(tool: string, args: Record<string, unknown>): CassetteInteraction {
+    const call = describeCall(tool, args);
+    const { test, suite } = currentTest();
+    const path = cassettePath(call.plugin, suite);
+    const file = this.load(call.plugin, suite);
+    const key = JSON.stringify(this.scrubber(path).scrub(call.arguments));
+
+    const matches = (i: CassetteInteraction) =>
+      i.tool === call.tool && JSON.stringify(i.arguments) === key;
+
+    let consumed = this.consumed.get(path);
+    if (!consumed) {
+      consumed = new Set();
+      this.consumed.set(path, consumed);
+    }
+
+    // The next unused interaction this test recorded for the same call
+    const index = file.interactions.findIndex(
+      (i, idx) => !consumed!.has(idx) && i.test === test && matches(i)
+    );
+    if (index !== -1) {
+      consumed.add(index);
+      return file.interactions[index];
+    }
+
+    const used = file.interactions.filter(i => i.test === test && matches(i)).length;
+    const candidates = file.interactions
+      .filter(i => i.test === test && i.tool === call.tool)
+      .map(i => `    ${JSON.stringify(i.arguments)}`);
+
+    throw new CassetteMissError(
+      `No recorded interaction for ${call.plugin} ${call.tool} ${key}\n` +
+      `  cassette: ${relative(ROOT, path)}${existsSync(path) ? '' : ' (missing)'}\n` +
+      `  test: ${test}\n` +
+      (used > 0 ? `  this test recorded the call ${used} time(s) and already replayed them all\n` : '') +
+      (candidates.length > 0
+        ? `  arguments this test recorded for ${call.tool}:\n${candidates.join('\n')}\n`
+        : '') +
+      `Re-record with: AGENTOS_CASSETTE=record npm test -- ${relative(ROOT, expect.getState().testPath || '')}`
+    );
+  }
+
+  /**
+   * Write recorded cassettes to disk (record mode)
+   */
+  save(): void {
+    for (const path of this.dirty) {
+      const file = this.files.get(path)!;
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(path, JSON.stringify(file, null, 2) + '\n');
+    }
+    this.dirty.clear();
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * Operation Contracts
+ *
+ * What an `entity.operation` call must return, derived from the entity
+ * schemas (entities/*.yaml `properties`) and the standard operations'
+ * return shapes (entities/operations.yaml):
+ *
+ *   task.list → array of tasks, task.get → one task, task.delete → nothing
+ *
+ * Each entity becomes a JSON Schema: required properties must be present
+ * and not null, optional ones may be null, `type` is checked (date and
+ * datetime as ISO 8601 strings, integer `min`/`max`, `format: url`), and
+ * nested objects (post `author`, `engagement`) and entity-typed array items
+ * (post `replies`) are checked recursively. Fields beyond the schema are
+ * allowed; adapters add `plugin` and their own extras.
+ *
+ *   const contract = operationContract('task.list');
+ *   expect(validateContract(contract, result)).toEqual([]);
+ *
+ * Relationship contracts pair an adapter's `relationships` block with
+ * entities/graph.yaml: which field carries the reference (task_project →
+ * `_project_id`, task_labels → `_labels`) and what the adapter promises to
+ * read and write through it.
+ */
+
+import Ajv, { ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import {
+  EntityDefinition,
+  EntityProperty,
+  EntityRelationship,
+  loadEntities,
+  loadRelationships,
+  loadStandardOperations,
+  parseReturns,
+  StandardOperation,
+} from './entities';
+import type { AdapterDef } from './plugins';
+
+type JsonSchema = Record<string, unknown>;
+
+/** ISO 8601 date with optional time and zone (2024-01-15, 2024-01-15T09:30:00Z) */
+const ISO_8601 = '^\\d{4}-\\d{2}-\\d{2}([T ]\\d{2}:\\d{2}(:\\d{2}(\\.\\d+)?)?(Z|[+-]\\d{2}:?\\d{2})?)?$';
+
+export interface OperationContract {
+  /** entity.operation (task.list) */
+  name: string;
+  entity: string;
+  operation: string;
+  /** A list of entities, one entity, or nothing */
+  returns: 'many' | 'one' | 'void';
+  /** JSON Schema the result must match (null for void) */
+  schema: JsonSchema | null;
+}
+
+function definitionRef(entityId: string): JsonSchema {
+  return { $ref: `#/definitions/${entityId}` };
+}
+
+/** Also allow null (an enum has to list it, `nullable` alone doesn't widen one) */
+function nullable(schema: JsonSchema): JsonSchema {
+  if (!('type' in schema)) return { anyOf: [schema, { type: 'null' }] };
+  return { ...schema, nullable: true, ...(Array.isArray(schema.enum) && { enum: [...schema.enum, null] }) };
+}
+
+function propertySchema(prop: EntityProperty, entities: Map<string, EntityDefinition>): JsonSchema {
+  let schema: JsonSchema;
+  switch (prop.type) {
+    case 'string':
+      schema = prop.format === 'url' ? { type: 'string', format: 'uri' } : { type: 'string' };
+      break;
+    case 'date':
+    case 'datetime':
+      schema = { type: 'string', pattern: ISO_8601 };
+      break;
+    case 'integer':
+    case 'number':
+      schema = {
+        type: prop.type,
+        ...(prop.min !== undefined && { minimum: prop.min }),
+        ...(prop.max !== undefined && { maximum: prop.max }),
+      };
+      break;
+    case 'boolean':
+      schema = { type: 'boolean' };
+      break;
+    case 'object':
+      schema = prop.properties ? objectSchema(prop.properties, entities) : { type: 'object' };
+      break;
+    case 'array':
+      schema = {
+        type: 'array',
+        ...(prop.items?.type && { items: propertySchema({ type: prop.items.type }, entities) }),
+      };
+      break;
+    default:
+      // Entity-typed values (items: { type: post }) check against that entity
+      schema = prop.type && entities.has(prop.type) ? definitionRef(prop.type) : {};
+  }
+
+  if (prop.enum?.length) schema.enum = prop.enum;
+  return schema;
+}
+
+function objectSchema(properties: Record<string, EntityProperty>, entities: Map<string, EntityDefinition>): JsonSchema {
+  const schemas: Record<string, JsonSchema> = {};
+  for (const [name, prop] of Object.entries(properties)) {
+    if (!prop || typeof prop !== 'object') continue;
+    const schema = propertySchema(prop, entities);
+    schemas[name] = prop.required ? schema : nullable(schema);
+  }
+
+  const required = Object.entries(properties).filter(([, prop]) => prop?.required).map(([name]) => name);
+  return { type: 'object', properties: schemas, ...(required.length > 0 && { required }) };
+}
+
+/** JSON Schema for one entity (entity-typed fields resolve against `definitions`) */
+export function entitySchema(entity: EntityDefinition, entities: Map<string, EntityDefinition>): JsonSchema {
+  return objectSchema(entity.properties, entities);
+}
+
+/**
+ * Contract for an `entity.operation`. The standard operation's return shape
+ * wins; operations that aren't standard (task.list_all) fall back to what
+ * the plugin declares. Null when the entity or the shape is unknown.
+ */
+export function operationContract(
+  name: string,
+  declaredReturns?: unknown,
+  entities: Map<string, EntityDefinition> = loadEntities(),
+  standard: Map<string, StandardOperation> = loadStandardOperations()
+): OperationContract | null {
+  const [entityId, operation] = name.split('.');
+  const entity = entities.get(entityId);
+  if (!entity || !operation) return null;
+
+  const shape = standard.get(operation)?.returns ?? declaredReturns;
+  if (shape === 'void') {
+    return { name, entity: entityId, operation, returns: 'void', schema: null };
+  }
+
+  // "entity" in operations.yaml stands for the operation's own entity
+  const parsed = parseReturns(shape === 'entity' || shape === 'entity[]' ? shape.replace('entity', entityId) : shape);
+  if (!parsed || !entities.has(parsed.entity)) return null;
+
+  const definitions = Object.fromEntries(
+    [...entities.values()].map(e => [e.id, entitySchema(e, entities)])
+  );
+  const item = definitionRef(parsed.entity);
+  return {
+    name,
+    entity: parsed.entity,
+    operation,
+    returns: parsed.many ? 'many' : 'one',
+    schema: { definitions, ...(parsed.many ? { type: 'array', items: item } : item) },
+  };
+}
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+addFormats(ajv);
+const compiled = new WeakMap<JsonSchema, ValidateFunction>();
+
+/**
+ * Check a result against a contract
+ * @returns Violations ("/0/priority must be <= 4"), empty when it conforms
+ */
+export function validateContract(contract: OperationContract, result: unknown): string[] {
+  if (!contract.schema) return [];
+
+  let validate = compiled.get(contract.schema);
+  if (!validate) {
+    validate = ajv.compile(contract.schema);
+    compiled.set(contract.schema, validate);
+  }
+  if (validate(result)) return [];
+
+  return (validate.errors || [])
+    // Nullable refs fail both anyOf branches; the non-null one is the real failure
+    .filter(error => error.keyword !== 'anyOf' && !(error.keyword === 'type' && error.params.type === 'null'))
+    .map(error => {
+      const message = error.keyword === 'pattern' ? 'must be an ISO 8601 date' : error.message;
+      return `${error.instancePath || '(result)'} ${message}`;
+    });
+}
+
+export type RelationshipSupport = 'full' | 'read_only' | 'write_only' | 'none';
+
+export interface RelationshipContract {
+  /** graph.yaml relationship id (task_project) */
+  id: string;
+  /** Entity holding the reference (task) */
+  from: string;
+  /** Entity referenced (project), null when graph.yaml doesn't define the relationship */
+  to: string | null;
+  support: RelationshipSupport;
+  /** Utility that routes changes to the reference during updates (move_task) */
+  mutation?: string;
+  /** Name of the reference on the from side (project, parent, labels) */
+  accessor: string;
+  /** Adapter field carrying the reference (_project_id, _labels), null when unmapped */
+  field: string | null;
+  /** The field holds a list of references */
+  many: boolean;
+  /** Field on the referenced entity listing the other side (_children), if mapped */
+  inverse: string | null;
+}
+
+function mappedField(mapping: Record<string, unknown>, candidates: string[]): string | null {
+  return candidates.find(name => name in mapping) ?? null;
+}
+
+/**
+ * Relationship contracts for every relationship a plugin's adapters declare.
+ * Accessors default to the relationship id without its entity prefix
+ * (task_project → project) and, on the other side, the plural of the from
+ * entity (project.tasks).
+ */
+export function relationshipContracts(
+  adapters: Record<string, AdapterDef> = {},
+  relationships: EntityRelationship[] = loadRelationships()
+): RelationshipContract[] {
+  const graph = new Map(relationships.map(r => [r.id, r]));
+
+  return Object.entries(adapters).flatMap(([entity, adapter]) =>
+    Object.entries(adapter.relationships || {}).map(([id, declared]) => {
+      const { support, mutation } = typeof declared === 'string' ? { support: declared, mutation: undefined } : declared;
+      const relationship = graph.get(id);
+      const accessor = relationship?.accessors?.from_side ?? id.replace(new RegExp(`^${entity}_`), '');
+      const mapping = adapter.mapping || {};
+
+      const single = mappedField(mapping, [`_${accessor}_id`]);
+      const field = single ?? mappedField(mapping, [`_${accessor}_ids`, `_${accessor}`]);
+
+      const toSide = relationship?.accessors?.to_side ?? `${entity}s`;
+      const toMapping = (relationship && adapters[relationship.to]?.mapping) || {};
+
+      return {
+        id,
+        from: relationship?.from ?? entity,
+        to: relationship?.to ?? null,
+        support: support as RelationshipSupport,
+        ...(mutation && { mutation }),
+        accessor,
+        field,
+        many: field !== null && !single,
+        inverse: mappedField(toMapping, [`_${toSide}_ids`, `_${toSide}`]),
+      };
+    })
+  );
+}
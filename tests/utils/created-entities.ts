@@ -0,0 +1,234 @@
+/**
+ * Created-Entity Registry
+ *
+ * Records every entity a test creates through a `{entity}.create` tool and
+ * deletes it when the test file finishes, through the plugin's matching
+ * `{entity}.delete`. Suites don't keep their own createdItems list or
+ * afterAll delete loop.
+ *
+ * Deletes run in dependency order from entities/graph.yaml: an entity that
+ * references another (task → project) is deleted first, and within one
+ * entity the newest goes first (subtasks before their parent). Entities a
+ * test deletes itself are dropped from the registry.
+ *
+ * Setup wraps every live client in one. Replayed and fixture runs create
+ * nothing real, so they skip it.
+ */
+
+import type {
+  AgentOSClient,
+  CallOptions,
+  ToolName,
+  ToolParams,
+  ToolResult,
+  Transport,
+  UsePluginArgs,
+} from './transport';
+import type { ToolCallResponse } from './http-client';
+import { EntityRelationship, loadRelationships } from './entities';
+import { loadPlugin, PluginDefinition } from './plugins';
+
+export interface CreatedEntity {
+  plugin: string;
+  /** Entity type (task, project, ...) */
+  entity: string;
+  id: string;
+  /** Account the entity was created under (UsePlugin `account`) */
+  account?: string;
+}
+
+/**
+ * Order entity types for deletion: types that reference others (task →
+ * project) before the types they reference. Reference cycles keep the
+ * given order.
+ */
+export function entityDeletionOrder(
+  types: string[],
+  relationships: EntityRelationship[] = loadRelationships()
+): string[] {
+  const remaining = [...new Set(types)];
+  const order: string[] = [];
+
+  while (remaining.length > 0) {
+    // Types nothing remaining still references can go now
+    const free = remaining.filter(type =>
+      !relationships.some(r => r.to === type && r.from !== type && remaining.includes(r.from))
+    );
+    for (const type of free.length > 0 ? free : [remaining[0]]) {
+      order.push(type);
+      remaining.splice(remaining.indexOf(type), 1);
+    }
+  }
+
+  return order;
+}
+
+/**
+ * Order created entities for deletion: by entity type (see
+ * entityDeletionOrder), newest first within a type
+ */
+export function deletionOrder(
+  entities: CreatedEntity[],
+  relationships: EntityRelationship[] = loadRelationships()
+): CreatedEntity[] {
+  const newestFirst = [...entities].reverse();
+  const types = entityDeletionOrder(newestFirst.map(e => e.entity), relationships);
+  return types.flatMap(type => newestFirst.filter(e => e.entity === type));
+}
+
+/** Entity id from a create result (null if it has none) */
+function entityId(result: unknown): string | null {
+  if (!result || typeof result !== 'object') return null;
+  const id = (result as { id?: unknown }).id;
+  return typeof id === 'string' || typeof id === 'number' ? String(id) : null;
+}
+
+/**
+ * Wraps a client and deletes what its calls created on disconnect
+ */
+export class EntityRegistry implements AgentOSClient {
+  readonly transport: Transport;
+  private client: AgentOSClient;
+  private entities: CreatedEntity[] = [];
+  private plugins = new Map<string, PluginDefinition | undefined>();
+
+  constructor(client: AgentOSClient) {
+    this.client = client;
+    this.transport = client.transport;
+  }
+
+  /** Entities created and not yet deleted, in creation order */
+  get created(): readonly CreatedEntity[] {
+    return this.entities;
+  }
+
+  call<P extends string, T extends ToolName<P>>(
+    tool: 'UsePlugin',
+    args: UsePluginArgs<P, T>,
+    options?: CallOptions
+  ): Promise<ToolResult<P, T>>;
+  call<N extends string>(
+    tool: N extends 'UsePlugin' ? never : N,
+    args?: Record<string, unknown>,
+    options?: CallOptions
+  ): Promise<unknown>;
+  async call(tool: string, args: Record<string, unknown> = {}, options?: CallOptions): Promise<unknown> {
+    const result = await this.client.call(tool, args, options);
+    this.track(tool, args, result);
+    return result;
+  }
+
+  async callDetailed(
+    tool: string,
+    args: Record<string, unknown> = {},
+    options?: CallOptions
+  ): Promise<ToolCallResponse> {
+    const response = await this.client.callDetailed(tool, args, options);
+    this.track(tool, args, response.result);
+    return response;
+  }
+
+  usePlugin<P extends string, T extends ToolName<P>>(
+    plugin: P,
+    tool: T,
+    params?: ToolParams<P, T>,
+    execute?: boolean,
+    options?: CallOptions
+  ): Promise<ToolResult<P, T>>;
+  usePlugin(
+    plugin: string,
+    tool: string,
+    params?: Record<string, unknown>,
+    execute?: boolean,
+    options?: CallOptions
+  ): Promise<unknown> {
+    return this.call('UsePlugin', { plugin, tool, params, execute }, options);
+  }
+
+  usePluginDetailed<P extends string, T extends ToolName<P>>(
+    plugin: P,
+    tool: T,
+    params?: ToolParams<P, T>,
+    execute?: boolean,
+    options?: CallOptions
+  ): Promise<ToolCallResponse & { result: ToolResult<P, T> }>;
+  usePluginDetailed(
+    plugin: string,
+    tool: string,
+    params?: Record<string, unknown>,
+    execute?: boolean,
+    options?: CallOptions
+  ): Promise<ToolCallResponse> {
+    return this.callDetailed('UsePlugin', { plugin, tool, params, execute }, options);
+  }
+
+  async disconnect(): Promise<void> {
+    await this.cleanup();
+    await this.client.disconnect();
+  }
+
+  /**
+   * Delete every registered entity (failures are logged, not thrown)
+   * @returns Number deleted
+   */
+  async cleanup(): Promise<number> {
+    const pending = deletionOrder(this.entities);
+    this.entities = [];
+    let deleted = 0;
+
+    for (const item of pending) {
+      const tool = `${item.entity}.delete`;
+      if (!this.plugin(item.plugin)?.config.operations?.[tool]) {
+        console.warn(`  ⚠ ${item.plugin} has no ${tool}; leaving ${item.entity} ${item.id}`);
+        continue;
+      }
+
+      try {
+        await this.client.call('UsePlugin', {
+          plugin: item.plugin,
+          tool,
+          params: { id: item.id },
+          execute: true,
+          ...(item.account && { account: item.account }),
+        });
+        deleted++;
+      } catch (e) {
+        console.warn(`  ⚠ Failed to clean up ${item.plugin} ${item.entity} ${item.id}: ${(e as Error).message}`);
+      }
+    }
+
+    if (deleted > 0) {
+      console.log(`  🧹 Deleted ${deleted} test ${deleted === 1 ? 'entity' : 'entities'}`);
+    }
+    return deleted;
+  }
+
+  /** Register creates and forget deletes made by a successful call */
+  private track(tool: string, args: Record<string, unknown>, result: unknown) {
+    if (tool !== 'UsePlugin' || typeof args.plugin !== 'string' || typeof args.tool !== 'string') return;
+
+    const [entity, operation] = args.tool.split('.');
+    if (!operation) return;
+
+    if (operation === 'create') {
+      const id = entityId(result);
+      if (!id) return;
+      this.entities.push({
+        plugin: args.plugin,
+        entity,
+        id,
+        ...(typeof args.account === 'string' && { account: args.account }),
+      });
+    } else if (operation === 'delete') {
+      const id = (args.params as Record<string, unknown> | undefined)?.id;
+      this.entities = this.entities.filter(e =>
+        !(e.plugin === args.plugin && e.entity === entity && e.id === String(id))
+      );
+    }
+  }
+
+  private plugin(id: string): PluginDefinition | undefined {
+    if (!this.plugins.has(id)) this.plugins.set(id, loadPlugin(id));
+    return this.plugins.get(id);
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Entity Definitions
+ *
+ * Loads entity schemas from entities/ for test infrastructure that needs
+ * to know what each entity looks like (types, contracts, coverage).
+ *
+ * Three file layouts are supported:
+ * - entities/{plural}.yaml           single entity (legacy)
+ * - entities/{plural}/entity.yaml    single entity with components
+ * - entities/{domain}.yaml           several entities under `entities:`
+ *
+ * When an entity is defined in both a legacy file and a folder, the folder
+ * version wins. operations.yaml (standard operations) and graph.yaml
+ * (relationships) are not entities.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { INTEGRATIONS_ROOT, ParamDef } from './plugins';
+
+export const ENTITIES_DIR = join(INTEGRATIONS_ROOT, 'entities');
+
+/** Files in entities/ that aren't entity definitions */
+const NON_ENTITY_FILES = new Set(['operations.yaml', 'graph.yaml']);
+
+export interface EntityProperty {
+  /** string, integer, number, boolean, date, datetime, object, array */
+  type?: string;
+  required?: boolean;
+  description?: string;
+  format?: string;
+  default?: unknown;
+  enum?: unknown[];
+  min?: number;
+  max?: number;
+  /** Array item type (a property type or an entity id) */
+  items?: { type?: string; [key: string]: unknown };
+  /** Nested object properties */
+  properties?: Record<string, EntityProperty>;
+}
+
+export interface EntityDefinition {
+  id: string;
+  plural?: string;
+  name?: string;
+  description?: string;
+  properties: Record<string, EntityProperty>;
+  operations: string[];
+  /** Path relative to entities/ */
+  file: string;
+}
+
+function toEntity(id: string, raw: Record<string, any>, file: string): EntityDefinition {
+  return {
+    id,
+    plural: raw.plural,
+    name: raw.name,
+    description: raw.description,
+    properties: raw.properties || {},
+    operations: raw.operations || [],
+    file,
+  };
+}
+
+function parseEntityFile(path: string, file: string): EntityDefinition[] {
+  const raw = parseYaml(readFileSync(path, 'utf-8')) as Record<string, any> | null;
+  if (!raw) return [];
+
+  // Domain file: several entities keyed by id
+  if (raw.entities && typeof raw.entities === 'object') {
+    return Object.entries(raw.entities as Record<string, Record<string, any>>)
+      .map(([id, def]) => toEntity(def.id || id, def, file));
+  }
+
+  if (!raw.id) return [];
+  return [toEntity(raw.id, raw, file)];
+}
+
+/**
+ * Load every entity definition, keyed by entity id
+ */
+export function loadEntities(): Map<string, EntityDefinition> {
+  const entities = new Map<string, EntityDefinition>();
+  if (!existsSync(ENTITIES_DIR)) return entities;
+
+  const entries = readdirSync(ENTITIES_DIR, { withFileTypes: true });
+
+  // Legacy and domain files first, so folder definitions override them
+  for (const entry of entries) {
+    if (!entry.isFile() || !entry.name.endsWith('.yaml')) continue;
+    if (NON_ENTITY_FILES.has(entry.name)) continue;
+
+    for (const entity of parseEntityFile(join(ENTITIES_DIR, entry.name), entry.name)) {
+      entities.set(entity.id, entity);
+    }
+  }
+
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+    const path = join(ENTITIES_DIR, entry.name, 'entity.yaml');
+    if (!existsSync(path)) continue;
+
+    for (const entity of parseEntityFile(path, `${entry.name}/entity.yaml`)) {
+      entities.set(entity.id, entity);
+    }
+  }
+
+  return entities;
+}
+
+/**
+ * Split an operation's `returns` into entity id and cardinality
+ * ("task[]" → { entity: 'task', many: true }, "void" → null)
+ */
+export function parseReturns(returns: unknown): { entity: string; many: boolean } | null {
+  if (typeof returns !== 'string' || returns === 'void') return null;
+  const many = returns.endsWith('[]');
+  return { entity: many ? returns.slice(0, -2) : returns, many };
+}
+
+export interface StandardOperation {
+  description?: string;
+  params: Record<string, ParamDef>;
+  /** "entity", "entity[]" or "void" ("entity" stands for the actual entity) */
+  returns?: string;
+}
+
+/**
+ * Load the standard operation contracts from entities/operations.yaml,
+ * keyed by operation name (list, get, create, ...)
+ */
+export function loadStandardOperations(): Map<string, StandardOperation> {
+  const operations = new Map<string, StandardOperation>();
+  const path = join(ENTITIES_DIR, 'operations.yaml');
+  if (!existsSync(path)) return operations;
+
+  const raw = parseYaml(readFileSync(path, 'utf-8')) as Record<string, any> | null;
+  for (const [name, def] of Object.entries(raw || {})) {
+    if (!def || typeof def !== 'object') continue;
+    operations.set(name, {
+      description: def.description,
+      params: def.params || {},
+      returns: def.returns,
+    });
+  }
+
+  return operations;
+}
+
+export interface EntityRelationship {
+  /** Relationship id (task_project) */
+  id: string;
+  /** Entity holding the reference (task) */
+  from: string;
+  /** Entity referenced (project) */
+  to: string;
+  description?: string;
+  accessors?: { from_side?: string; to_side?: string };
+}
+
+/**
+ * Load entity relationships from entities/graph.yaml
+ */
+export function loadRelationships(): EntityRelationship[] {
+  const path = join(ENTITIES_DIR, 'graph.yaml');
+  if (!existsSync(path)) return [];
+
+  const raw = parseYaml(readFileSync(path, 'utf-8')) as { relationships?: Record<string, any> } | null;
+  return Object.entries(raw?.relationships || {})
+    .filter(([, def]) => def && typeof def.from === 'string' && typeof def.to === 'string')
+    .map(([id, def]) => ({
+      id,
+      from: def.from,
+      to: def.to,
+      description: def.description,
+      accessors: def.accessors,
+    }));
+}
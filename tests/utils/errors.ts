@@ -0,0 +1,168 @@
+/**
+ * Tool Call Errors
+ *
+ * Errors shared by the HTTP and MCP clients, so tests can check what went
+ * wrong without caring about the transport:
+ *
+ *   await expect(aos().usePlugin('todoist', 'task.get', { id: 'nope' }))
+ *     .rejects.toBeInstanceOf(UpstreamHttpError);
+ */
+
+/** Why a call was abandoned before the server answered */
+export type AbortReason = 'timeout' | 'aborted';
+
+/**
+ * A call that was cancelled by its AbortSignal or ran past its timeout.
+ * Over MCP the server is sent notifications/cancelled; over HTTP the
+ * request is aborted.
+ */
+export class CallAbortedError extends Error {
+  readonly reason: AbortReason;
+  readonly tool: string;
+  /** Timeout that expired (reason 'timeout') */
+  readonly timeoutMs?: number;
+
+  constructor(tool: string, reason: AbortReason, timeoutMs?: number) {
+    super(
+      reason === 'timeout'
+        ? `${tool} timed out after ${timeoutMs}ms`
+        : `${tool} was aborted`
+    );
+    this.name = 'CallAbortedError';
+    this.tool = tool;
+    this.reason = reason;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/** Human-readable name of a call for error messages (e.g. "todoist task.list") */
+export function describeCall(tool: string, args: Record<string, unknown> = {}): string {
+  if (tool === 'UsePlugin' && typeof args.plugin === 'string') {
+    return `${args.plugin} ${args.tool}`;
+  }
+  return tool;
+}
+
+// =============================================================================
+// Tool Failures
+// =============================================================================
+
+/**
+ * Structured error data AgentOS sends with a failed call: top-level fields of
+ * the HTTP error body, JSON-RPC `error.data`, or a tool result's
+ * `structuredContent` over MCP.
+ */
+export interface ToolErrorData {
+  /** credential_missing, response_mapping, upstream_http, validation, timeout */
+  code?: string;
+  /** Status the plugin's upstream API answered with (upstream_http) */
+  upstream_status?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * A tool call AgentOS answered with an error. Thrown as one of the subclasses
+ * below when the server says what kind of failure it was, so tests can
+ * branch with instanceof instead of matching message text.
+ */
+export class ToolCallError extends Error {
+  readonly tool: string;
+  /** Error code from the server (undefined if it sent none) */
+  readonly code?: string;
+  /** AgentOS HTTP status (HTTP transport only) */
+  readonly status?: number;
+  readonly data: ToolErrorData;
+
+  constructor(tool: string, message: string, data: ToolErrorData = {}, status?: number, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'ToolCallError';
+    this.tool = tool;
+    this.code = data.code;
+    this.status = status;
+    this.data = data;
+  }
+}
+
+/** The plugin needs credentials that aren't configured */
+export class CredentialMissingError extends ToolCallError {
+  name = 'CredentialMissingError';
+}
+
+/** The upstream response didn't match the plugin's response mapping (root, paths) */
+export class ResponseMappingError extends ToolCallError {
+  name = 'ResponseMappingError';
+}
+
+/** The plugin's upstream API answered with an error status */
+export class UpstreamHttpError extends ToolCallError {
+  name = 'UpstreamHttpError';
+
+  get upstreamStatus(): number | undefined {
+    return this.data.upstream_status;
+  }
+}
+
+/** The call's arguments were rejected (unknown tool, missing or invalid params) */
+export class ValidationError extends ToolCallError {
+  name = 'ValidationError';
+}
+
+/**
+ * AgentOS gave up waiting on the upstream API. (When the test client gives
+ * up first, the call throws CallAbortedError instead.)
+ */
+export class TimeoutError extends ToolCallError {
+  name = 'TimeoutError';
+}
+
+/** The fixture server has no recorded response for the call (AGENTOS_SERVER=fixtures) */
+export class FixtureMissingError extends ToolCallError {
+  name = 'FixtureMissingError';
+}
+
+/**
+ * The server sent no error code, so there is nothing to classify by. The
+ * harness checks that AgentOS sends codes before tests run (see
+ * checkCapabilities in http-client.ts), so this points at a server path that
+ * skips them. Message text and HTTP status are not guessed from.
+ */
+export class UnclassifiedToolError extends ToolCallError {
+  name = 'UnclassifiedToolError';
+}
+
+const ERROR_CLASSES: Record<string, typeof ToolCallError> = {
+  credential_missing: CredentialMissingError,
+  response_mapping: ResponseMappingError,
+  upstream_http: UpstreamHttpError,
+  validation: ValidationError,
+  timeout: TimeoutError,
+  fixture_missing: FixtureMissingError,
+};
+
+/** Pick the structured fields out of an error payload (non-objects give {}) */
+export function toolErrorData(payload: unknown): ToolErrorData {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) return {};
+  return { ...payload } as ToolErrorData;
+}
+
+/**
+ * Build the typed error for a failed call from the server's structured data.
+ * The code alone picks the class: an unknown code gives a plain
+ * ToolCallError, a missing one an UnclassifiedToolError saying so. The one
+ * fallback is the MCP client's, which gives JSON-RPC invalid params (-32602)
+ * without a code `validation`. `cause` keeps the transport error
+ * (HttpError, MCPError, MCPToolError).
+ */
+export function classifyToolError(
+  tool: string,
+  message: string,
+  data: ToolErrorData,
+  status?: number,
+  cause?: unknown
+): ToolCallError {
+  if (!data.code) {
+    return new UnclassifiedToolError(tool, `${message} (the server sent no error code)`, data, status, cause);
+  }
+  const ErrorClass = ERROR_CLASSES[data.code] || ToolCallError;
+  return new ErrorClass(tool, message, data, status, cause);
+}
@@ -0,0 +1,269 @@
+/**
+ * Fixture Server
+ *
+ * In-process stand-in for the AgentOS HTTP server. Implements the two
+ * endpoints the tests rely on:
+ * - GET  /api/health
+ * - POST /api/tools/call  (UsePlugin only, returns ToolCallResponse)
+ *
+ * Plugins and their operations come from readme frontmatter. Results come
+ * from per-plugin fixture files instead of live APIs:
+ *
+ *   plugins/{plugin}/tests/fixtures/responses.json
+ *
+ *   {
+ *     "webpage.search": [
+ *       { "params": { "query": "rust" }, "result": [...] },   // params must match
+ *       { "result": [...] }                                   // fallback
+ *     ],
+ *     "task.get": [
+ *       { "error": { "status": 502, "message": "Task not found", "code": "upstream_http", "upstream_status": 404 } }
+ *     ]
+ *   }
+ *
+ * The first response whose `params` are all present in the call wins.
+ * Calls are first checked against the tool's param definitions (required,
+ * type, enum) and rejected with a `validation` error, like AgentOS does.
+ * Plugins with auth but no fixture file behave like a server without
+ * credentials ("Credential not found"); credentialsUnavailable() skips
+ * their suites up front (see credentials.ts). Errors carry a structured
+ * `code` so clients throw typed errors, but the codes (and the param checks
+ * behind `validation`) are this server's own: a fixture run exercises the
+ * harness, not how AgentOS classifies failures.
+ * 
+ * Enable in tests with AGENTOS_SERVER=fixtures.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { loadPlugins, PluginDefinition, ParamDef, UtilityDef } from './plugins';
+import type { ToolCallResponse } from './http-client';
+import type { ToolErrorData } from './errors';
+import { allowedValues, matchesParam } from './param-cases';
+
+export interface FixtureResponse {
+  /** Params that must match for this response (omit to match any call) */
+  params?: Record<string, unknown>;
+  result?: unknown;
+  /** Failure to answer with; code and upstream_status classify it (see errors.ts) */
+  error?: { status?: number; message: string; code?: string; upstream_status?: number };
+}
+
+export type FixtureResponses = Record<string, FixtureResponse[]>;
+
+export interface FixtureServerOptions {
+  /** Port to listen on (0 = random) */
+  port?: number;
+  /** Enable debug logging */
+  debug?: boolean;
+}
+
+class ToolCallFailure extends Error {
+  status: number;
+  data: ToolErrorData;
+
+  constructor(message: string, status: number, data: ToolErrorData = {}) {
+    super(message);
+    this.status = status;
+    this.data = data;
+  }
+}
+
+/** Load a plugin's fixture responses (null if it has no fixture file) */
+export function loadFixtureResponses(plugin: PluginDefinition): FixtureResponses | null {
+  const path = join(plugin.dir, 'tests', 'fixtures', 'responses.json');
+  if (!existsSync(path)) return null;
+  return JSON.parse(readFileSync(path, 'utf-8')) as FixtureResponses;
+}
+
+function paramsMatch(expected: Record<string, unknown> | undefined, actual: Record<string, unknown>): boolean {
+  if (!expected) return true;
+  return Object.entries(expected).every(
+    ([key, value]) => JSON.stringify(actual[key]) === JSON.stringify(value)
+  );
+}
+
+export class FixtureServer {
+  private server: Server;
+  private plugins = new Map<string, PluginDefinition>();
+  private responses = new Map<string, FixtureResponses | null>();
+  private activityId = 0;
+  private debug: boolean;
+
+  private constructor(options: FixtureServerOptions) {
+    this.debug = options.debug ?? !!process.env.DEBUG_HTTP;
+    this.server = createServer((req, res) => this.handle(req, res));
+
+    for (const plugin of loadPlugins()) {
+      this.plugins.set(plugin.id, plugin);
+      this.responses.set(plugin.id, loadFixtureResponses(plugin));
+    }
+  }
+
+  /**
+   * Start a fixture server (resolves once listening)
+   */
+  static async start(options: FixtureServerOptions = {}): Promise<FixtureServer> {
+    const server = new FixtureServer(options);
+    await new Promise<void>((resolve, reject) => {
+      server.server.once('error', reject);
+      server.server.listen(options.port ?? 0, '127.0.0.1', () => resolve());
+    });
+    server.log(`Listening on ${server.url}`);
+    return server;
+  }
+
+  get port(): number {
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  get url(): string {
+    return `http://127.0.0.1:${this.port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  private log(...args: unknown[]) {
+    if (this.debug) {
+      console.log(`[Fixtures ${new Date().toISOString().slice(11, 23)}]`, ...args);
+    }
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method === 'GET' && req.url === '/api/health') {
+      send(200, { status: 'ok' });
+      return;
+    }
+
+    if (req.method === 'POST' && req.url === '/api/tools/call') {
+      let body = '';
+      for await (const chunk of req) body += chunk;
+
+      try {
+        const { tool, arguments: args = {} } = JSON.parse(body);
+        send(200, this.callTool(tool, args));
+      } catch (error) {
+        if (error instanceof ToolCallFailure) {
+          send(error.status, { ...error.data, error: error.message });
+        } else {
+          send(400, { error: (error as Error).message, code: 'validation' });
+        }
+      }
+      return;
+    }
+
+    send(404, { error: `Not found: ${req.method} ${req.url}` });
+  }
+
+  private callTool(tool: string, args: Record<string, unknown>): ToolCallResponse {
+    const started = Date.now();
+
+    if (tool !== 'UsePlugin') {
+      throw new ToolCallFailure(`Unknown tool: ${tool}`, 404, { code: 'validation' });
+    }
+
+    const pluginId = args.plugin as string;
+    const toolName = args.tool as string;
+    const params = (args.params ?? {}) as Record<string, unknown>;
+    this.log(`${pluginId} ${toolName}`, JSON.stringify(params).slice(0, 200));
+
+    const plugin = this.plugins.get(pluginId);
+    if (!plugin) {
+      throw new ToolCallFailure(`Plugin not found: ${pluginId}`, 404, { code: 'validation' });
+    }
+
+    // Built-in: the plugin's documentation
+    if (toolName === 'readme') {
+      const readme = readFileSync(join(plugin.dir, 'readme.md'), 'utf-8');
+      return this.respond(readme, 'plugin', 'readme', started);
+    }
+
+    const operation = plugin.config.operations?.[toolName];
+    const utility = plugin.config.utilities?.[toolName]
+      ?? (plugin.config.actions as Record<string, UtilityDef> | undefined)?.[toolName];
+    if (!operation && !utility) {
+      throw new ToolCallFailure(`Tool '${toolName}' not found in plugin '${pluginId}'`, 404, { code: 'validation' });
+    }
+
+    this.checkParams(operation?.params ?? utility?.params, params);
+
+    const responses = this.responses.get(pluginId);
+    if (!responses && plugin.config.auth) {
+      throw new ToolCallFailure(`Credential not found for plugin '${pluginId}'`, 401, { code: 'credential_missing' });
+    }
+
+    const candidates = responses?.[toolName] ?? [];
+    const fixture = candidates.find(r => paramsMatch(r.params, params));
+    if (!fixture) {
+      throw new ToolCallFailure(`No fixture response for ${pluginId} ${toolName}`, 501, { code: 'fixture_missing' });
+    }
+    if (fixture.error) {
+      const { message, status = 500, ...data } = fixture.error;
+      throw new ToolCallFailure(message, status, data);
+    }
+
+    let result: unknown = fixture.result ?? null;
+
+    if (operation) {
+      // Honor limit like a real provider would
+      if (Array.isArray(result) && typeof params.limit === 'number') {
+        result = result.slice(0, params.limit);
+      }
+      // AgentOS tags every entity with the plugin that produced it
+      result = this.tagPlugin(result, pluginId);
+    }
+
+    const [entity, op] = operation ? toolName.split('.') : ['utility', toolName];
+    return this.respond(result, entity, op, started);
+  }
+
+  private respond(result: unknown, entity: string, operation: string, started: number): ToolCallResponse {
+    return {
+      request_id: randomUUID(),
+      result,
+      activity: {
+        id: ++this.activityId,
+        entity,
+        operation,
+        status: 200,
+        duration_ms: Date.now() - started,
+      },
+    };
+  }
+
+  private checkParams(defs: Record<string, ParamDef> | undefined, params: Record<string, unknown>) {
+    for (const [name, def] of Object.entries(defs ?? {})) {
+      if (params[name] === undefined || params[name] === null) {
+        if (def.required && params[name] === undefined) {
+          throw new ToolCallFailure(`Missing required parameter: ${name}`, 400, { code: 'validation', param: name });
+        }
+        continue;
+      }
+      if (!matchesParam(def, params[name])) {
+        const allowed = allowedValues(def);
+        const expected = allowed ? `one of ${allowed.join(', ')}` : def.type;
+        throw new ToolCallFailure(`Invalid parameter: ${name} (expected ${expected})`, 400, { code: 'validation', param: name });
+      }
+    }
+  }
+
+  private tagPlugin(result: unknown, plugin: string): unknown {
+    if (Array.isArray(result)) {
+      return result.map(item => this.tagPlugin(item, plugin));
+    }
+    if (result && typeof result === 'object') {
+      return { plugin, ...result };
+    }
+    return result;
+  }
+}
@@ -4,7 +4,12 @@
  * Common utilities for integration tests.
  */
 
-import { getAgentOS, AgentOS } from './http-client';
+import type { PluginDefinition } from './plugins';
+import { AgentOSClient, getAgentOS } from './transport';
+
+export { credentialsUnavailable, hasCredentials } from './credentials';
+export { isTransientError, retry } from './retry';
+export type { RetryOptions } from './retry';
 
 /** Test data prefix for easy identification and cleanup */
 export const TEST_PREFIX = '[TEST]';
@@ -26,41 +31,112 @@ export function testContent(description = 'test item'): string {
   return `${TEST_PREFIX} ${description} ${testId()}`;
 }
 
-/** Get the global AgentOS instance */
-export function aos(): AgentOS {
+/** Get the global AgentOS instance (tool calls typed from plugin frontmatter) */
+export function aos(): AgentOSClient {
   return getAgentOS();
 }
 
+/** Params that only page or order a list; a default on any other param filters it */
+const PAGING_PARAMS = new Set(['limit', 'offset', 'cursor', 'page', 'sort', 'order']);
+
+/** Largest page asked for when listing everything */
+const FULL_LIST_LIMIT = 1000;
+
+/** A call that lists every item of an entity (up to `limit`, when it pages) */
+export interface FullListing {
+  tool: string;
+  params: Record<string, unknown>;
+  limit?: number;
+}
+
 /**
- * Clean up test data created during tests
- * Call this in afterAll() to remove test records
+ * How to list every item of a plugin entity: `{entity}.list_all` where the
+ * plugin has one, else `{entity}.list` when it neither requires a param nor
+ * filters by default. Returns why not otherwise - todoist's task.list, for
+ * one, defaults to "today | overdue | #Inbox".
+ */
+export function fullListing(plugin: PluginDefinition, entity: string): FullListing | string {
+  const operations = plugin.config.operations || {};
+  const tool = [`${entity}.list_all`, `${entity}.list`].find(name => operations[name]);
+  if (!tool) return `no ${entity}.list`;
+
+  const params = operations[tool].params || {};
+  for (const [name, param] of Object.entries(params)) {
+    if (param?.required && param.default === undefined) return `${tool} requires '${name}'`;
+    if (param?.default !== undefined && !PAGING_PARAMS.has(name)) {
+      return `${tool} filters by default (${name}: ${JSON.stringify(param.default)})`;
+    }
+  }
+  return 'limit' in params
+    ? { tool, params: { limit: FULL_LIST_LIMIT }, limit: FULL_LIST_LIMIT }
+    : { tool, params: {} };
+}
+
+/** Whether a listed item is test data, by its title or name */
+export function isTestItem(item: Record<string, unknown>): boolean {
+  return isTestData(String(item.title ?? item.name ?? ''));
+}
+
+/**
+ * List the test data of one plugin entity (see fullListing)
+ * @returns The matching items, and whether the listing hit its limit
+ */
+export async function listTestData(
+  plugin: PluginDefinition,
+  listing: FullListing,
+  filterFn: (item: Record<string, unknown>) => boolean = isTestItem
+): Promise<{ items: Record<string, unknown>[]; truncated: boolean }> {
+  const result = await getAgentOS().usePlugin(plugin.id, listing.tool, listing.params);
+  if (!Array.isArray(result)) {
+    throw new Error(`${plugin.id} ${listing.tool} returned ${typeof result}, not a list`);
+  }
+  const all = result as Record<string, unknown>[];
+  return {
+    items: all.filter(filterFn),
+    truncated: listing.limit !== undefined && all.length >= listing.limit,
+  };
+}
+
+/**
+ * Delete leftover test data for one plugin entity: lists it (see
+ * fullListing) and deletes every match through `{entity}.delete`. Entities
+ * created by the current run are cleaned up automatically (see
+ * created-entities.ts); this is for strays from crashed runs (npm run sweep).
+ * A failed listing throws; so do failed deletes, once the rest are tried.
+ * @returns How many items were deleted
  */
 export async function cleanupTestData(
-  app: string,
-  filterFn: (item: any) => boolean = (item) => isTestData(item.title || item.name || '')
+  plugin: PluginDefinition,
+  entity: string,
+  listing: FullListing,
+  filterFn: (item: Record<string, unknown>) => boolean = isTestItem
 ): Promise<number> {
   const agentOS = getAgentOS();
-  
-  try {
-    const items = await agentOS.call(app, { action: 'list', params: { limit: 1000 } });
-    const testItems = (items || []).filter(filterFn);
-    
-    let deleted = 0;
-    for (const item of testItems) {
-      try {
-        // Note: execute: true required for write actions
-        await agentOS.call(app, { action: 'delete', params: { id: item.id }, execute: true });
-        deleted++;
-      } catch (e) {
-        console.warn(`Failed to delete ${app} item ${item.id}:`, e);
-      }
+
+  const { items, truncated } = await listTestData(plugin, listing, filterFn);
+  if (truncated) {
+    console.warn(`  ⚠ ${plugin.id} ${listing.tool} returned ${listing.limit} items; later ones weren't checked`);
+  }
+
+  let deleted = 0;
+  const failures: string[] = [];
+  for (const item of items) {
+    try {
+      // Note: execute: true required for write operations
+      await agentOS.usePlugin(plugin.id, `${entity}.delete`, { id: item.id }, true);
+      deleted++;
+    } catch (e) {
+      failures.push(`${item.id}: ${e instanceof Error ? e.message : String(e)}`);
     }
-    
-    return deleted;
-  } catch (e) {
-    console.warn(`Failed to cleanup ${app}:`, e);
-    return 0;
   }
+
+  if (failures.length > 0) {
+    throw new Error(
+      `Failed to delete ${failures.length} of ${items.length} ${plugin.id} ${entity} item(s)` +
+      ` (${deleted} deleted):\n  ${failures.join('\n  ')}`
+    );
+  }
+  return deleted;
 }
 
 /**
@@ -85,29 +161,3 @@ export async function waitFor(
 export function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
-
-/**
- * Retry a function with backoff
- */
-export async function retry<T>(
-  fn: () => Promise<T>,
-  options: { retries?: number; delay?: number; backoff?: number } = {}
-): Promise<T> {
-  const { retries = 3, delay = 1000, backoff = 2 } = options;
-  let lastError: Error | undefined;
-  let currentDelay = delay;
-
-  for (let i = 0; i <= retries; i++) {
-    try {
-      return await fn();
-    } catch (error) {
-      lastError = error as Error;
-      if (i < retries) {
-        await sleep(currentDelay);
-        currentDelay *= backoff;
-      }
-    }
-  }
-
-  throw lastError;
-}
@@ -10,14 +10,36 @@
  * 
  * HTTP API returns plain data (not MCP-wrapped).
  * MCP wrapping happens only in the MCP layer.
+ * 
+ * Tool calls can be recorded to and replayed from cassettes (see cassette.ts).
+ * Failed calls throw a typed ToolCallError subclass (see errors.ts) with the
+ * HttpError as its cause. Rate-limited (429/503) calls are retried under the
+ * client's retry policy (see retry.ts); cassettes record only the outcome.
+ * Server output is buffered for failure reports (see server-logs.ts).
  */
 
 import { spawn, ChildProcess } from 'child_process';
 import { EventEmitter } from 'events';
-
-// Test server uses port 3457 to isolate from dev server (3456)
-const TEST_PORT = 3457;
-const BASE_URL = `http://127.0.0.1:${TEST_PORT}`;
+import { Cassette, CassetteMode, cassetteModeFromEnv } from './cassette';
+import type {
+  AgentOSClient,
+  CallOptions,
+  ToolName,
+  ToolParams,
+  ToolResult,
+  UsePluginArgs,
+} from './transport';
+import { CallAbortedError, classifyToolError, describeCall, ToolCallError, toolErrorData } from './errors';
+import { AgentOSBinary, capabilityProbe, requireCapabilities, resolveAgentOS } from './agentos-binary';
+import { DEFAULT_RETRY, retryCall, RetryOptions } from './retry';
+import { ServerLog } from './server-logs';
+import { READINESS_POLL_MS, reportLoadFailures, startupTimeoutFromEnv, waitForPlugins } from './readiness';
+import { BASE_TEST_PORT, workerEnv, workerPort } from './worker';
+import { credentialEnv } from './credentials';
+
+// Test servers start at port 3457 to isolate from dev server (3456),
+// one port per vitest worker (see worker.ts)
+export const TEST_PORT = BASE_TEST_PORT;
 const DEFAULT_TIMEOUT = 30000;
 
 export interface HttpClientOptions {
@@ -27,6 +49,16 @@ export interface HttpClientOptions {
   timeout?: number;
   /** Enable debug logging */
   debug?: boolean;
+  /** Server port (default: this vitest worker's port) */
+  port?: number;
+  /** Record or replay tool calls (default: AGENTOS_CASSETTE env var) */
+  cassette?: CassetteMode;
+  /** Retry policy for transient failures (default: DEFAULT_RETRY; false = none) */
+  retry?: RetryOptions | false;
+  /** Startup budget in ms, health plus plugin loading (default: AGENTOS_STARTUP_TIMEOUT or 30000) */
+  startupTimeout?: number;
+  /** Buffer for the server's output; pass one in to keep it when connect() fails */
+  serverLog?: ServerLog;
 }
 
 export interface ToolCallResponse {
@@ -53,9 +85,17 @@ export class HttpError extends Error {
   }
 }
 
+/** Typed error for a failed call, from the structured fields of the error body */
+function toToolError(tool: string, args: Record<string, unknown>, error: HttpError): ToolCallError {
+  return classifyToolError(describeCall(tool, args), error.message, toolErrorData(error.data), error.status, error);
+}
+
 export class HttpTestClient extends EventEmitter {
   private serverProcess: ChildProcess | null = null;
-  private options: Required<HttpClientOptions>;
+  /** Output of the server this client started (empty if it reused one) */
+  readonly serverLog: ServerLog;
+  private options: Required<Omit<HttpClientOptions, 'cassette' | 'serverLog'>>;
+  private cassette: Cassette | null;
   private connected = false;
 
   constructor(options: HttpClientOptions = {}) {
@@ -64,7 +104,17 @@ export class HttpTestClient extends EventEmitter {
       autoStart: options.autoStart ?? true,
       timeout: options.timeout ?? DEFAULT_TIMEOUT,
       debug: options.debug ?? !!process.env.DEBUG_HTTP,
+      port: options.port ?? workerPort(),
+      retry: options.retry ?? DEFAULT_RETRY,
+      startupTimeout: options.startupTimeout ?? startupTimeoutFromEnv(),
     };
+    this.serverLog = options.serverLog ?? new ServerLog();
+    const cassetteMode = options.cassette ?? cassetteModeFromEnv();
+    this.cassette = cassetteMode ? new Cassette(cassetteMode) : null;
+  }
+
+  private get baseUrl(): string {
+    return `http://127.0.0.1:${this.options.port}`;
   }
 
   private log(...args: unknown[]) {
@@ -73,11 +123,6 @@ export class HttpTestClient extends EventEmitter {
     }
   }
 
-  private findAgentOS(): string {
-    // Standard development location
-    return `${process.env.HOME}/dev/agentos/target/debug/agentos`;
-  }
-
   /**
    * Connect to the HTTP server (starts it if needed)
    */
@@ -86,6 +131,13 @@ export class HttpTestClient extends EventEmitter {
       throw new Error('Already connected');
     }
 
+    // Replay serves recorded responses - no server needed
+    if (this.cassette?.mode === 'replay') {
+      this.log('Replaying recorded tool calls');
+      this.connected = true;
+      return;
+    }
+
     // Check if server is already running
     if (await this.isServerRunning()) {
       this.log('Server already running');
@@ -97,14 +149,19 @@ export class HttpTestClient extends EventEmitter {
       throw new Error('Server not running and autoStart is disabled');
     }
 
-    // Start the server
-    await this.startServer();
+    // Start the server; one that never got ready is stopped, not left running
+    try {
+      await this.startServer();
+    } catch (error) {
+      await this.stopServer();
+      throw error;
+    }
     this.connected = true;
   }
 
   private async isServerRunning(): Promise<boolean> {
     try {
-      const response = await fetch(`${BASE_URL}/api/health`, {
+      const response = await fetch(`${this.baseUrl}/api/health`, {
         signal: AbortSignal.timeout(2000),
       });
       return response.ok;
@@ -114,21 +171,27 @@ export class HttpTestClient extends EventEmitter {
   }
 
   private async startServer(): Promise<void> {
-    this.log('Starting server...');
+    this.log(`Starting server on port ${this.options.port} (${workerEnv() ?? 'default env'})...`);
+
+    const binary = resolveAgentOS();
+    this.log(`Using AgentOS ${binary.version} at ${binary.path}`);
 
-    this.serverProcess = spawn(this.findAgentOS(), ['serve'], {
-      cwd: `${process.env.HOME}/dev/agentos`,
+    this.serverProcess = spawn(binary.path, ['serve'], {
+      cwd: binary.cwd,
       env: {
         ...process.env,
-        AGENTOS_ENV: 'test',
-        AGENTOS_PORT: TEST_PORT.toString(),
+        ...credentialEnv(),
+        AGENTOS_ENV: workerEnv(),
+        AGENTOS_PORT: this.options.port.toString(),
         RUST_BACKTRACE: '1',
       },
       stdio: ['ignore', 'pipe', 'pipe'],
       detached: false,
     });
 
-    // Log stderr for debugging
+    // Buffer output for failing tests; log stderr for debugging
+    this.serverLog.capture(this.serverProcess.stdout, 'stdout');
+    this.serverLog.capture(this.serverProcess.stderr, 'stderr');
     this.serverProcess.stderr?.on('data', (data) => {
       this.log('stderr:', data.toString().trim());
     });
@@ -144,50 +207,73 @@ export class HttpTestClient extends EventEmitter {
       this.emit('close', code);
     });
 
-    // Wait for server to be ready
-    const maxAttempts = 50;
-    const delayMs = 100;
-    
-    for (let i = 0; i < maxAttempts; i++) {
-      if (await this.isServerRunning()) {
-        this.log('Server ready');
-        return;
+    // Wait for the server, then for its plugins, within the startup budget
+    const budget = this.options.startupTimeout;
+    const deadline = Date.now() + budget;
+
+    while (!(await this.isServerRunning())) {
+      if (this.serverProcess.exitCode !== null) {
+        throw new Error(`Server exited with code ${this.serverProcess.exitCode} before it was ready`);
+      }
+      if (Date.now() + READINESS_POLL_MS > deadline) {
+        throw new Error(`Server failed to start within ${budget / 1000} seconds (raise AGENTOS_STARTUP_TIMEOUT)`);
       }
-      await new Promise(resolve => setTimeout(resolve, delayMs));
+      await new Promise(resolve => setTimeout(resolve, READINESS_POLL_MS));
     }
 
-    throw new Error('Server failed to start within 5 seconds');
+    this.log('Server healthy, waiting for plugins...');
+    const report = await waitForPlugins(plugin => this.probePlugin(plugin, deadline), deadline);
+    reportLoadFailures(report);
+    await this.checkCapabilities(binary, report.loaded);
+    this.log(`Server ready (${report.loaded.length} plugins loaded)`);
+  }
+
+  /** Fails fast when the server lacks error codes or activity metadata */
+  private async checkCapabilities(binary: AgentOSBinary, loaded: string[]): Promise<void> {
+    const probe = capabilityProbe(loaded);
+    if (!probe) return;
+
+    let errorCodes = false;
+    try {
+      await this.send('UsePlugin', { ...probe, params: {} }, {});
+    } catch (error) {
+      errorCodes = error instanceof HttpError && typeof toolErrorData(error.data).code === 'string';
+    }
+    const response = await this.send('UsePlugin', { plugin: probe.plugin, tool: 'readme' }, {});
+    requireCapabilities(binary, { errorCodes, activity: !!response.activity });
+  }
+
+  /** Resolves once the server serves a plugin (its built-in readme) */
+  private async probePlugin(plugin: string, deadline: number): Promise<void> {
+    const timeout = Math.max(1, Math.min(this.options.timeout, deadline - Date.now()));
+    await this.send('UsePlugin', { plugin, tool: 'readme' }, { timeout });
+  }
+
+  /** Stop the server this client started (SIGKILL if it outlives 5s) */
+  private async stopServer(): Promise<void> {
+    const server = this.serverProcess;
+    if (!server) return;
+    this.serverProcess = null;
+    if (server.exitCode !== null || server.signalCode !== null) return;
+
+    this.log('Stopping server...');
+    const closed = new Promise<void>(resolve => server.once('close', () => resolve()));
+    server.kill('SIGTERM');
+    const forceKill = setTimeout(() => server.kill('SIGKILL'), 5000);
+    await closed;
+    clearTimeout(forceKill);
   }
 
   /**
    * Disconnect and stop the server
    */
   async disconnect(): Promise<void> {
-    if (this.serverProcess) {
-      this.log('Stopping server...');
-      this.serverProcess.kill('SIGTERM');
-
-      // Force kill after 5 seconds
-      const forceKillTimeout = setTimeout(() => {
-        this.serverProcess?.kill('SIGKILL');
-      }, 5000);
-
-      await new Promise<void>((resolve) => {
-        if (!this.serverProcess) {
-          clearTimeout(forceKillTimeout);
-          resolve();
-          return;
-        }
-
-        this.serverProcess.once('close', () => {
-          clearTimeout(forceKillTimeout);
-          resolve();
-        });
-      });
-
-      this.serverProcess = null;
+    if (this.cassette?.mode === 'record') {
+      this.cassette.save();
     }
 
+    await this.stopServer();
+
     this.connected = false;
     this.log('Disconnected');
   }
@@ -195,43 +281,136 @@ export class HttpTestClient extends EventEmitter {
   /**
    * Call any tool via HTTP API
    */
-  async call(tool: string, args: Record<string, unknown> = {}): Promise<unknown> {
+  async call(tool: string, args: Record<string, unknown> = {}, options?: CallOptions): Promise<unknown> {
+    // HTTP API returns plain data directly
+    return (await this.callDetailed(tool, args, options)).result;
+  }
+
+  /**
+   * Call a tool and return the full response (request_id and activity included)
+   */
+  async callDetailed(
+    tool: string,
+    args: Record<string, unknown> = {},
+    options: CallOptions = {}
+  ): Promise<ToolCallResponse> {
     if (!this.connected) {
       throw new Error('Not connected');
     }
 
     this.log(`Calling ${tool}:`, JSON.stringify(args).slice(0, 200));
 
-    const response = await fetch(`${BASE_URL}/api/tools/call`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        tool,
-        arguments: args,
-      }),
-      signal: AbortSignal.timeout(this.options.timeout),
-    });
+    if (options.signal?.aborted) {
+      throw new CallAbortedError(describeCall(tool, args), 'aborted');
+    }
+
+    if (this.cassette?.mode === 'replay') {
+      const recorded = this.cassette.replay(tool, args);
+      if (recorded.error) {
+        const { message, status, data } = recorded.error;
+        throw toToolError(tool, args, new HttpError(message, status, data));
+      }
+      return recorded.response!;
+    }
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new HttpError(
-        (errorData as { error?: string }).error || `HTTP ${response.status}`,
-        response.status,
-        errorData
+    const attempt = async () => {
+      try {
+        return await this.send(tool, args, options);
+      } catch (error) {
+        throw error instanceof HttpError ? toToolError(tool, args, error) : error;
+      }
+    };
+
+    try {
+      const data = await retryCall(
+        describeCall(tool, args),
+        attempt,
+        options.retry ?? this.options.retry,
+        options.signal,
+        message => this.log(message)
       );
+      this.cassette?.record(tool, args, { response: data });
+      return data;
+    } catch (error) {
+      // Only the final attempt is recorded, so replays don't retry
+      if (error instanceof ToolCallError && error.cause instanceof HttpError) {
+        const { message, status, data } = error.cause;
+        this.cassette?.record(tool, args, { error: { message, status, data } });
+      }
+      throw error;
     }
+  }
 
-    const data = await response.json() as ToolCallResponse;
-    
-    // HTTP API returns plain data directly
-    return data.result;
+  private async send(
+    tool: string,
+    args: Record<string, unknown>,
+    options: CallOptions
+  ): Promise<ToolCallResponse> {
+    const timeoutMs = options.timeout ?? this.options.timeout;
+    const timeoutSignal = AbortSignal.timeout(timeoutMs);
+    const signal = options.signal
+      ? AbortSignal.any([options.signal, timeoutSignal])
+      : timeoutSignal;
+
+    try {
+      const response = await fetch(`${this.baseUrl}/api/tools/call`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          tool,
+          arguments: args,
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({})) as Record<string, unknown>;
+        // Rate limits: keep the server's Retry-After for the retry policy
+        const retryAfter = response.headers.get('retry-after');
+        if (retryAfter && errorData.retry_after === undefined) errorData.retry_after = retryAfter;
+        throw new HttpError(
+          (errorData as { error?: string }).error || `HTTP ${response.status}`,
+          response.status,
+          errorData
+        );
+      }
+
+      return await response.json() as ToolCallResponse;
+    } catch (error) {
+      // Aborting the fetch closes the connection, so the server stops the call
+      if (signal.aborted) {
+        throw options.signal?.aborted
+          ? new CallAbortedError(describeCall(tool, args), 'aborted')
+          : new CallAbortedError(describeCall(tool, args), 'timeout', timeoutMs);
+      }
+      throw error;
+    }
   }
 
   /**
    * Call UsePlugin tool (convenience method)
    */
-  usePlugin(plugin: string, tool: string, params?: object, execute?: boolean): Promise<unknown> {
-    return this.call('UsePlugin', { plugin, tool, params, execute });
+  usePlugin(
+    plugin: string,
+    tool: string,
+    params?: Record<string, unknown>,
+    execute?: boolean,
+    options?: CallOptions
+  ): Promise<unknown> {
+    return this.call('UsePlugin', { plugin, tool, params, execute }, options);
+  }
+
+  /**
+   * Call UsePlugin and return the full response (request_id and activity included)
+   */
+  usePluginDetailed(
+    plugin: string,
+    tool: string,
+    params?: Record<string, unknown>,
+    execute?: boolean,
+    options?: CallOptions
+  ): Promise<ToolCallResponse> {
+    return this.callDetailed('UsePlugin', { plugin, tool, params, execute }, options);
   }
 
   isConnected(): boolean {
@@ -242,9 +421,10 @@ export class HttpTestClient extends EventEmitter {
 /**
  * High-level AgentOS test wrapper
  * 
- * Provides the same interface as MCP client for compatibility.
+ * Implements the transport-agnostic AgentOSClient (see transport.ts).
  */
-export class AgentOS {
+export class AgentOS implements AgentOSClient {
+  readonly transport = 'http' as const;
   private http: HttpTestClient;
 
   constructor(http: HttpTestClient) {
@@ -257,6 +437,10 @@ export class AgentOS {
     return new AgentOS(http);
   }
 
+  get serverLog(): ServerLog {
+    return this.http.serverLog;
+  }
+
   async disconnect(): Promise<void> {
     await this.http.disconnect();
   }
@@ -264,28 +448,71 @@ export class AgentOS {
   /**
    * Call any tool directly
    */
-  async call(tool: string, args: object = {}): Promise<unknown> {
-    return this.http.call(tool, args);
+  call<P extends string, T extends ToolName<P>>(
+    tool: 'UsePlugin',
+    args: UsePluginArgs<P, T>,
+    options?: CallOptions
+  ): Promise<ToolResult<P, T>>;
+  call<N extends string>(
+    tool: N extends 'UsePlugin' ? never : N,
+    args?: Record<string, unknown>,
+    options?: CallOptions
+  ): Promise<unknown>;
+  async call(tool: string, args: Record<string, unknown> = {}, options?: CallOptions): Promise<unknown> {
+    return this.http.call(tool, args, options);
   }
 
   /**
    * Call UsePlugin tool (convenience method)
    */
-  usePlugin(plugin: string, tool: string, params?: object, execute?: boolean): Promise<unknown> {
-    return this.http.usePlugin(plugin, tool, params, execute);
+  usePlugin<P extends string, T extends ToolName<P>>(
+    plugin: P,
+    tool: T,
+    params?: ToolParams<P, T>,
+    execute?: boolean,
+    options?: CallOptions
+  ): Promise<ToolResult<P, T>>;
+  usePlugin(
+    plugin: string,
+    tool: string,
+    params?: Record<string, unknown>,
+    execute?: boolean,
+    options?: CallOptions
+  ): Promise<unknown> {
+    return this.http.usePlugin(plugin, tool, params, execute, options);
   }
-}
 
-// Global instance for tests (set in setup.ts)
-let globalAos: AgentOS | null = null;
+  /**
+   * Call any tool, returning request_id and activity with the result
+   */
+  callDetailed(
+    tool: string,
+    args: Record<string, unknown> = {},
+    options?: CallOptions
+  ): Promise<ToolCallResponse> {
+    return this.http.callDetailed(tool, args, options);
+  }
 
-export function getAgentOS(): AgentOS {
-  if (!globalAos) {
-    throw new Error('AgentOS not initialized. Did you run tests with vitest?');
+  /**
+   * Call UsePlugin, returning request_id and activity with the result
+   */
+  usePluginDetailed<P extends string, T extends ToolName<P>>(
+    plugin: P,
+    tool: T,
+    params?: ToolParams<P, T>,
+    execute?: boolean,
+    options?: CallOptions
+  ): Promise<ToolCallResponse & { result: ToolResult<P, T> }>;
+  usePluginDetailed(
+    plugin: string,
+    tool: string,
+    params?: Record<string, unknown>,
+    execute?: boolean,
+    options?: CallOptions
+  ): Promise<ToolCallResponse> {
+    return this.http.usePluginDetailed(plugin, tool, params, execute, options);
   }
-  return globalAos;
 }
 
-export function setGlobalAgentOS(aos: AgentOS | null): void {
-  globalAos = aos;
-}
+// Global instance lives in transport.ts; re-exported for existing imports
+export { getAgentOS, setGlobalAgentOS } from './transport';
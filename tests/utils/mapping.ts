@@ -0,0 +1,244 @@
+/**
+ * Response Mapping
+ *
+ * The harness's reading of how a plugin turns an upstream response into the
+ * entities a tool returns: take `response.root` (a JSON pointer: /results,
+ * /results/0), then apply the adapter `mapping` (or the operation's own) to
+ * each item. It is written from the plugin docs and the expressions plugins
+ * use, not from AgentOS; tests/plugins/mapping.test.ts checks it against a
+ * live AgentOS.
+ *
+ *   mapping:
+ *     id: .id
+ *     priority: ".priority | invert:5"
+ *     author.name: .data.author                       # nested: author { name }
+ *     status: ".state.type == 'completed' ? 'done' : 'open'"
+ *     _labels: ".labels.nodes[].name"
+ *     privacy: "OPEN"                                 # constant
+ *
+ * Expressions: paths (`.a.b`, `.a[]`, `.a[0]`, `.a[-1]`), string, number
+ * and boolean literals, `==`/`!=`, `cond ? a : b`, parentheses, and the
+ * filters below. Missing paths give null. Anything else throws
+ * MappingSyntaxError rather than guess; when adding one, check it with
+ * mapping.test.ts against a live AgentOS.
+ *
+ * Used by the golden snapshot tests (tests/plugins/snapshots.test.ts) to
+ * catch mapping changes without a live account.
+ */
+
+import { parseReturns } from './entities';
+import type { OperationDef, PluginDefinition } from './plugins';
+
+export class MappingSyntaxError extends Error {
+  name = 'MappingSyntaxError';
+}
+
+/** Filters: `value | name` or `value | name: arg` */
+const FILTERS: Record<string, (value: unknown, arg: unknown) => unknown> = {
+  /** Reverse a 1..n-1 scale (Todoist priority 4=urgent → 1) */
+  invert: (value, arg) => (typeof value === 'number' ? Number(arg) - value : value),
+  multiply: (value, arg) => (typeof value === 'number' ? value * Number(arg) : value),
+  prepend: (value, arg) => (value === null || value === undefined ? null : `${arg}${value}`),
+  append: (value, arg) => (value === null || value === undefined ? null : `${value}${arg}`),
+  /** Unix seconds → ISO 8601 */
+  from_unix: value => (typeof value === 'number' ? new Date(value * 1000).toISOString() : value),
+  default: (value, arg) => (value === null || value === undefined || value === '' ? arg : value),
+};
+
+type Token = { kind: 'path' | 'string' | 'number' | 'word' | 'op'; text: string };
+
+function tokenize(expr: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\.(?:[A-Za-z_][\w]*|\[-?\d*\])(?:\.[A-Za-z_][\w]*|\[-?\d*\])*|\.(?![\w[]))|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)"|(-?\d+(?:\.\d+)?)|([A-Za-z_]\w*)|(==|!=|[?:|()]))/y;
+
+  let index = 0;
+  while (index < expr.length) {
+    if (!expr.slice(index).trim()) break;
+    pattern.lastIndex = index;
+    const match = pattern.exec(expr);
+    if (!match) throw new MappingSyntaxError(`Unexpected '${expr.slice(index).trim()}' in mapping "${expr}"`);
+    index = pattern.lastIndex;
+
+    const [, path, single, double, number, word, op] = match;
+    if (path !== undefined) tokens.push({ kind: 'path', text: path });
+    else if (single !== undefined || double !== undefined) tokens.push({ kind: 'string', text: single ?? double });
+    else if (number !== undefined) tokens.push({ kind: 'number', text: number });
+    else if (word !== undefined) tokens.push({ kind: 'word', text: word });
+    else tokens.push({ kind: 'op', text: op });
+  }
+  return tokens;
+}
+
+/** Follow a path (.a.b[].c[-1]); [] maps the rest over an array */
+function getPath(data: unknown, path: string): unknown {
+  const steps = path.match(/[A-Za-z_]\w*|\[-?\d*\]/g) || [];
+
+  const walk = (value: unknown, i: number): unknown => {
+    if (i === steps.length) return value ?? null;
+    if (value === null || value === undefined) return null;
+
+    const step = steps[i];
+    if (step === '[]') {
+      return Array.isArray(value) ? value.map(item => walk(item, i + 1)) : null;
+    }
+    if (step.startsWith('[')) {
+      if (!Array.isArray(value)) return null;
+      const n = Number(step.slice(1, -1));
+      return walk(value[n < 0 ? value.length + n : n], i + 1);
+    }
+    return typeof value === 'object' ? walk((value as Record<string, unknown>)[step], i + 1) : null;
+  };
+
+  return walk(data, 0);
+}
+
+/** Evaluate one mapping expression against an item */
+export function evaluate(expr: string, item: unknown): unknown {
+  const tokens = tokenize(expr);
+  let pos = 0;
+
+  const peek = (text?: string) => {
+    const token = tokens[pos];
+    return token && (text === undefined || (token.kind === 'op' && token.text === text)) ? token : undefined;
+  };
+  const expect = (text: string) => {
+    if (!peek(text)) throw new MappingSyntaxError(`Expected '${text}' in mapping "${expr}"`);
+    pos++;
+  };
+
+  const primary = (): unknown => {
+    const token = tokens[pos++];
+    if (!token) throw new MappingSyntaxError(`Unexpected end of mapping "${expr}"`);
+    switch (token.kind) {
+      case 'path':
+        return getPath(item, token.text);
+      case 'string':
+        return token.text;
+      case 'number':
+        return Number(token.text);
+      case 'word':
+        if (token.text === 'null') return null;
+        if (token.text === 'true' || token.text === 'false') return token.text === 'true';
+        break;
+      case 'op':
+        if (token.text === '(') {
+          const value = ternary();
+          expect(')');
+          return value;
+        }
+    }
+    throw new MappingSyntaxError(`Unexpected '${token.text}' in mapping "${expr}"`);
+  };
+
+  const pipeline = (): unknown => {
+    let value = primary();
+    while (peek('|')) {
+      pos++;
+      const name = tokens[pos++];
+      const filter = name?.kind === 'word' ? FILTERS[name.text] : undefined;
+      if (!filter) throw new MappingSyntaxError(`Unknown filter '${name?.text}' in mapping "${expr}"`);
+
+      let arg: unknown;
+      if (peek(':')) {
+        pos++;
+        arg = primary();
+      }
+      value = filter(value, arg);
+    }
+    return value;
+  };
+
+  const comparison = (): unknown => {
+    const left = pipeline();
+    const op = peek('==') || peek('!=');
+    if (!op) return left;
+    pos++;
+    const equal = left === pipeline();
+    return op.text === '==' ? equal : !equal;
+  };
+
+  const ternary = (): unknown => {
+    const condition = comparison();
+    if (!peek('?')) return condition;
+    pos++;
+    const then = ternary();
+    expect(':');
+    const otherwise = ternary();
+    return condition ? then : otherwise;
+  };
+
+  const value = ternary();
+  if (pos < tokens.length) throw new MappingSyntaxError(`Unexpected '${tokens[pos].text}' in mapping "${expr}"`);
+  return value;
+}
+
+function setPath(target: Record<string, unknown>, key: string, value: unknown) {
+  const keys = key.split('.');
+  let node = target;
+  for (const k of keys.slice(0, -1)) {
+    node = (node[k] ??= {}) as Record<string, unknown>;
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Map one item. Expressions start with `.` or `(`; other strings and
+ * non-strings are constants. Dotted keys and nested objects build nested
+ * output.
+ */
+export function applyMapping(item: unknown, mapping: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, expr] of Object.entries(mapping)) {
+    let value: unknown;
+    if (expr && typeof expr === 'object' && !Array.isArray(expr)) {
+      value = applyMapping(item, expr as Record<string, unknown>);
+    } else if (typeof expr === 'string' && /^\s*[.(]/.test(expr)) {
+      value = evaluate(expr, item);
+    } else {
+      value = expr;
+    }
+    setPath(result, key, value);
+  }
+  return result;
+}
+
+/** Value at a JSON pointer (/results/0); throws when the path isn't there */
+export function extractRoot(data: unknown, root?: string): unknown {
+  if (!root || root === '/') return data;
+
+  let value = data;
+  for (const key of root.replace(/^\//, '').split('/')) {
+    const container = value as Record<string, unknown> | unknown[] | null;
+    if (container === null || typeof container !== 'object' || !(key in container)) {
+      throw new MappingSyntaxError(`Path not found: ${root} (at '${key}')`);
+    }
+    value = Array.isArray(container) ? container[Number(key)] : container[key];
+  }
+  return value;
+}
+
+/** An operation's executor `response` block (rest, graphql, ...) */
+function responseConfig(def: OperationDef): { root?: string; mapping?: Record<string, unknown> } {
+  for (const value of Object.values(def)) {
+    const response = (value as { response?: unknown } | null)?.response;
+    if (response && typeof response === 'object') return response as { root?: string; mapping?: Record<string, unknown> };
+  }
+  return {};
+}
+
+/**
+ * Map a raw upstream response for an operation: root, then the
+ * operation's mapping or its entity's adapter mapping
+ */
+export function mapResponse(plugin: PluginDefinition, tool: string, raw: unknown): unknown {
+  const def = plugin.config.operations?.[tool];
+  if (!def) throw new Error(`${plugin.id} has no operation '${tool}'`);
+
+  const { root, mapping: override } = responseConfig(def);
+  const data = extractRoot(raw, root);
+  const entity = parseReturns(def.returns)?.entity;
+  const mapping = override ?? (entity ? plugin.config.adapters?.[entity]?.mapping : undefined);
+  if (!mapping) return data;
+
+  return Array.isArray(data) ? data.map(item => applyMapping(item, mapping)) : applyMapping(data, mapping);
+}
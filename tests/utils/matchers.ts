@@ -0,0 +1,89 @@
+/**
+ * Custom Vitest Matchers
+ *
+ * Assertions on tool call metadata from callDetailed() / usePluginDetailed():
+ *
+ *   const response = await aos().usePluginDetailed('todoist', 'task.create', {...});
+ *   expect(response).toHaveActivity({ entity: 'task', operation: 'create' });
+ *   expect(response).toCompleteWithin(5000);
+ *
+ * toCompleteWithin also accepts a promise, timing it from the assertion:
+ *
+ *   await expect(aos().usePlugin('exa', 'webpage.search', {...})).toCompleteWithin(5000);
+ *
+ * Registered globally in setup.ts.
+ */
+
+import { expect } from 'vitest';
+import type { ToolCallResponse } from './http-client';
+
+type Activity = ToolCallResponse['activity'];
+
+interface CustomMatchers<R = unknown> {
+  /** Response activity matches every given field */
+  toHaveActivity(expected: Partial<Activity>): R;
+  /** Response activity duration (or promise settle time) is at most ms */
+  toCompleteWithin(ms: number): R;
+}
+
+declare module 'vitest' {
+  interface Assertion<T = any> extends CustomMatchers<T> {}
+  interface AsymmetricMatchersContaining extends CustomMatchers {}
+}
+
+function isToolCallResponse(value: unknown): value is ToolCallResponse {
+  return !!value && typeof value === 'object' && 'activity' in value && 'request_id' in value;
+}
+
+expect.extend({
+  toHaveActivity(received: unknown, expected: Partial<Activity>) {
+    if (!isToolCallResponse(received)) {
+      return {
+        pass: false,
+        message: () =>
+          `expected a ToolCallResponse (from callDetailed/usePluginDetailed), got ${this.utils.printReceived(received)}`,
+      };
+    }
+
+    const activity = received.activity;
+    const mismatched = Object.entries(expected).filter(
+      ([key, value]) => !this.equals(activity?.[key as keyof Activity], value)
+    );
+
+    return {
+      pass: mismatched.length === 0,
+      message: () =>
+        this.isNot
+          ? `expected activity not to match ${this.utils.printExpected(expected)}`
+          : `expected activity to match ${this.utils.printExpected(expected)}\n` +
+            `received ${this.utils.printReceived(activity)}\n` +
+            `mismatched: ${mismatched.map(([key]) => key).join(', ')}`,
+    };
+  },
+
+  toCompleteWithin(received: unknown, ms: number) {
+    const result = (duration: number) => ({
+      pass: duration <= ms,
+      message: () =>
+        this.isNot
+          ? `expected to take longer than ${ms}ms, completed in ${duration}ms`
+          : `expected to complete within ${ms}ms, took ${duration}ms`,
+    });
+
+    if (isToolCallResponse(received)) {
+      return result(received.activity.duration_ms);
+    }
+
+    // Promises are timed from the assertion, so the matcher must be awaited
+    if (received instanceof Promise) {
+      const started = Date.now();
+      return received.catch(() => {}).then(() => result(Date.now() - started));
+    }
+
+    return {
+      pass: false,
+      message: () =>
+        `expected a ToolCallResponse or promise, got ${this.utils.printReceived(received)}`,
+    };
+  },
+});
@@ -3,18 +3,115 @@
  * 
  * Connects to AgentOS via stdio MCP protocol for E2E testing.
  * This allows tests to make MCP calls programmatically.
+ * 
+ * Supports:
+ * - tools/list and tools/call
+ * - resources/list and resources/read
+ * - prompts/list and prompts/get
+ * - Progress notifications, correlated to the in-flight request
+ * - Typed tool-call errors, classified like HTTP ones (see errors.ts)
+ * - Retries of rate-limited calls, like HTTP ones (see retry.ts)
+ * - Server stderr buffered for failure reports (see server-logs.ts)
  */
 
 import { spawn, ChildProcess } from 'child_process';
 import { createInterface, Interface } from 'readline';
 import { EventEmitter } from 'events';
+import type {
+  AgentOSClient,
+  CallOptions,
+  ToolName,
+  ToolParams,
+  ToolResult,
+  UsePluginArgs,
+} from './transport';
+import { CallAbortedError, classifyToolError, describeCall, toolErrorData } from './errors';
+import { resolveAgentOS } from './agentos-binary';
+import { workerEnv } from './worker';
+import { DEFAULT_RETRY, retryCall, RetryOptions } from './retry';
+import { ServerLog } from './server-logs';
+import { credentialEnv } from './credentials';
+import type { ToolCallResponse } from './http-client';
 
 interface PendingRequest {
+  method: string;
   resolve: (value: any) => void;
   reject: (error: any) => void;
   timeout: ReturnType<typeof setTimeout>;
+  onProgress?: (progress: MCPProgress) => void;
+  /** Detaches the caller's AbortSignal listener */
+  cleanup: () => void;
+}
+
+export interface MCPTool {
+  name: string;
+  description?: string;
+  /** JSON Schema for the tool's arguments */
+  inputSchema: {
+    type: 'object';
+    properties?: Record<string, any>;
+    required?: string[];
+    [key: string]: unknown;
+  };
+}
+
+export interface MCPResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  /** Base64-encoded binary content */
+  blob?: string;
+}
+
+export interface MCPPrompt {
+  name: string;
+  description?: string;
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: { type: string; text?: string; [key: string]: unknown };
+}
+
+export interface MCPProgress {
+  progressToken: string | number;
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export interface MCPNotification {
+  method: string;
+  params?: any;
 }
 
+/** One page of a paginated list (tools, resources, prompts) */
+export interface MCPPage<T> {
+  items: T[];
+  nextCursor?: string;
+}
+
+export interface MCPCallOptions extends CallOptions {
+  /** Receive progress notifications for this call */
+  onProgress?: (progress: MCPProgress) => void;
+}
+
+interface RequestOptions extends MCPCallOptions {
+  /** Name for errors (defaults to the method) */
+  label?: string;
+}
+
+/** JSON-RPC error code for invalid method parameters */
+const JSONRPC_INVALID_PARAMS = -32602;
+
 export class MCPError extends Error {
   code: number;
   data?: any;
@@ -27,13 +124,35 @@ export class MCPError extends Error {
   }
 }
 
+/** A tool call that completed with isError: true */
+export class MCPToolError extends Error {
+  content: unknown[];
+
+  constructor(message: string, content: unknown[]) {
+    super(message);
+    this.name = 'MCPToolError';
+    this.content = content;
+  }
+}
+
 export interface MCPClientOptions {
-  /** Path to AgentOS binary (default: finds from PATH or standard location) */
+  /** Path to AgentOS binary (default: AGENTOS_BIN, PATH, or standard location) */
   command?: string;
   /** Request timeout in ms (default: 30000) */
   timeout?: number;
   /** Enable debug logging */
   debug?: boolean;
+  /** Retry policy for transient failures (default: DEFAULT_RETRY; false = none) */
+  retry?: RetryOptions | false;
+  /** Buffer for the server's stderr; pass one in to keep it when connect() fails */
+  serverLog?: ServerLog;
+}
+
+export interface MCPTestClient {
+  on(event: 'progress', listener: (progress: MCPProgress) => void): this;
+  on(event: 'notification', listener: (notification: MCPNotification) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+  on(event: 'close', listener: (code: number | null) => void): this;
 }
 
 /**
@@ -44,31 +163,20 @@ export class MCPTestClient extends EventEmitter {
   private readline: Interface | null = null;
   private requestId = 0;
   private pending = new Map<number, PendingRequest>();
-  private options: Required<MCPClientOptions>;
+  private options: Required<Omit<MCPClientOptions, 'serverLog'>>;
   private connected = false;
+  /** Server stderr, buffered for failure reports */
+  readonly serverLog: ServerLog;
 
   constructor(options: MCPClientOptions = {}) {
     super();
     this.options = {
-      command: options.command || this.findAgentOS(),
+      command: options.command || '',
       timeout: options.timeout || 30000,
       debug: options.debug || !!process.env.DEBUG_MCP,
+      retry: options.retry ?? DEFAULT_RETRY,
     };
-  }
-
-  private findAgentOS(): string {
-    // Try standard locations
-    const locations = [
-      // Development build (post-Tauri removal)
-      `${process.env.HOME}/dev/agentos/target/debug/agentos`,
-      // Release build (post-Tauri removal)
-      `${process.env.HOME}/dev/agentos/target/release/agentos`,
-      // Installed location
-      '/Applications/AgentOS.app/Contents/MacOS/agentos',
-    ];
-    
-    // Return first one that exists (or default to debug)
-    return locations[0];
+    this.serverLog = options.serverLog ?? new ServerLog();
   }
 
   private log(...args: any[]) {
@@ -82,18 +190,24 @@ export class MCPTestClient extends EventEmitter {
       throw new Error('Already connected');
     }
 
+    const binary = resolveAgentOS(this.options.command || undefined);
+
     return new Promise((resolve, reject) => {
-      this.log('Spawning:', this.options.command, ['mcp']);
+      this.log(`Spawning AgentOS ${binary.version}:`, binary.path, ['mcp']);
 
-      this.process = spawn(this.options.command, ['mcp'], {
+      this.process = spawn(binary.path, ['mcp'], {
+        cwd: binary.cwd,
         env: { 
           ...process.env, 
-          AGENTOS_ENV: 'test',
+          ...credentialEnv(),
+          AGENTOS_ENV: workerEnv(),
           RUST_BACKTRACE: '1'
         },
         stdio: ['pipe', 'pipe', 'pipe']
       });
 
+      // stdout is the protocol; server logs go to stderr
+      this.serverLog.capture(this.process.stderr, 'stderr');
       this.process.stderr?.on('data', (data) => {
         const text = data.toString().trim();
         if (text) this.log('stderr:', text);
@@ -118,12 +232,16 @@ export class MCPTestClient extends EventEmitter {
         this.emit('close', code);
       });
 
+      // A server that never finished the handshake is stopped, not left running
       this.initializeConnection()
         .then(() => {
           this.connected = true;
           resolve();
         })
-        .catch(reject);
+        .catch(async (error) => {
+          await this.disconnect();
+          reject(error);
+        });
     });
   }
 
@@ -146,11 +264,8 @@ export class MCPTestClient extends EventEmitter {
       const message = JSON.parse(trimmed);
       
       if ('id' in message) {
-        const pending = this.pending.get(message.id);
+        const pending = this.settle(message.id);
         if (pending) {
-          clearTimeout(pending.timeout);
-          this.pending.delete(message.id);
-          
           if (message.error) {
             pending.reject(new MCPError(message.error));
           } else {
@@ -158,23 +273,70 @@ export class MCPTestClient extends EventEmitter {
           }
         }
       } else if ('method' in message) {
-        this.emit('notification', message);
+        this.handleNotification(message);
       }
     } catch {
       this.log('Non-JSON line:', trimmed);
     }
   }
 
-  private sendRequest(method: string, params: any): Promise<any> {
+  private handleNotification(message: MCPNotification) {
+    if (message.method === 'notifications/progress') {
+      const progress = message.params as MCPProgress;
+      // Progress tokens are the request id they were issued for
+      const pending = this.pending.get(Number(progress.progressToken));
+      pending?.onProgress?.(progress);
+      this.emit('progress', progress);
+    }
+
+    this.emit('notification', message);
+  }
+
+  /** Remove a pending request, clearing its timer and abort listener */
+  private settle(id: number): PendingRequest | undefined {
+    const pending = this.pending.get(id);
+    if (pending) {
+      clearTimeout(pending.timeout);
+      pending.cleanup();
+      this.pending.delete(id);
+    }
+    return pending;
+  }
+
+  /** Give up on a request and tell the server to stop working on it */
+  private cancel(id: number, error: CallAbortedError) {
+    const pending = this.settle(id);
+    if (!pending) return;
+
+    this.sendNotification('notifications/cancelled', { requestId: id, reason: error.message });
+    pending.reject(error);
+  }
+
+  private sendRequest(method: string, params: any, options: RequestOptions = {}): Promise<any> {
+    const label = options.label ?? method;
+    const { signal } = options;
+
+    if (signal?.aborted) {
+      return Promise.reject(new CallAbortedError(label, 'aborted'));
+    }
+
     return new Promise((resolve, reject) => {
       const id = ++this.requestId;
+      const timeoutMs = options.timeout ?? this.options.timeout;
       
       const timeout = setTimeout(() => {
-        this.pending.delete(id);
-        reject(new Error(`Request timeout: ${method}`));
-      }, this.options.timeout);
+        this.cancel(id, new CallAbortedError(label, 'timeout', timeoutMs));
+      }, timeoutMs);
+
+      const onAbort = () => this.cancel(id, new CallAbortedError(label, 'aborted'));
+      signal?.addEventListener('abort', onAbort, { once: true });
+      const cleanup = () => signal?.removeEventListener('abort', onAbort);
 
-      this.pending.set(id, { resolve, reject, timeout });
+      this.pending.set(id, { method, resolve, reject, timeout, onProgress: options.onProgress, cleanup });
+
+      if (options.onProgress) {
+        params = { ...params, _meta: { ...params?._meta, progressToken: id } };
+      }
 
       const request = JSON.stringify({ jsonrpc: '2.0', id, method, params });
       this.log('Sending:', request.slice(0, 200));
@@ -188,17 +350,132 @@ export class MCPTestClient extends EventEmitter {
     this.process!.stdin!.write(notification + '\n');
   }
 
+  private async listPage<T>(method: string, key: string, cursor?: string): Promise<MCPPage<T>> {
+    if (!this.connected) throw new Error('Not connected');
+
+    const result = await this.sendRequest(method, cursor ? { cursor } : {});
+    return { items: result?.[key] ?? [], nextCursor: result?.nextCursor };
+  }
+
+  private async listAll<T>(method: string, key: string): Promise<T[]> {
+    const items: T[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.listPage<T>(method, key, cursor);
+      items.push(...page.items);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    return items;
+  }
+
+  /**
+   * List one page of tools (pass nextCursor to get the next page)
+   */
+  listTools(cursor?: string): Promise<MCPPage<MCPTool>> {
+    return this.listPage('tools/list', 'tools', cursor);
+  }
+
+  /**
+   * List all tools, following pagination cursors
+   */
+  listAllTools(): Promise<MCPTool[]> {
+    return this.listAll('tools/list', 'tools');
+  }
+
+  /**
+   * List one page of resources (pass nextCursor to get the next page)
+   */
+  listResources(cursor?: string): Promise<MCPPage<MCPResource>> {
+    return this.listPage('resources/list', 'resources', cursor);
+  }
+
+  /**
+   * List all resources, following pagination cursors
+   */
+  listAllResources(): Promise<MCPResource[]> {
+    return this.listAll('resources/list', 'resources');
+  }
+
+  /**
+   * Read a resource's contents by URI
+   */
+  async readResource(uri: string): Promise<MCPResourceContents[]> {
+    if (!this.connected) throw new Error('Not connected');
+
+    const result = await this.sendRequest('resources/read', { uri });
+    return result?.contents ?? [];
+  }
+
+  /**
+   * List one page of prompts (pass nextCursor to get the next page)
+   */
+  listPrompts(cursor?: string): Promise<MCPPage<MCPPrompt>> {
+    return this.listPage('prompts/list', 'prompts', cursor);
+  }
+
+  /**
+   * List all prompts, following pagination cursors
+   */
+  listAllPrompts(): Promise<MCPPrompt[]> {
+    return this.listAll('prompts/list', 'prompts');
+  }
+
+  /**
+   * Get a prompt rendered with arguments
+   */
+  async getPrompt(
+    name: string,
+    args: Record<string, string> = {}
+  ): Promise<{ description?: string; messages: MCPPromptMessage[] }> {
+    if (!this.connected) throw new Error('Not connected');
+
+    const result = await this.sendRequest('prompts/get', { name, arguments: args });
+    return { description: result?.description, messages: result?.messages ?? [] };
+  }
+
   /**
    * Call an MCP tool
    */
-  async call(tool: string, args: object = {}): Promise<any> {
+  async call(tool: string, args: object = {}, options: MCPCallOptions = {}): Promise<any> {
     if (!this.connected) throw new Error('Not connected');
 
-    const result = await this.sendRequest('tools/call', { name: tool, arguments: args });
+    const label = describeCall(tool, args as Record<string, unknown>);
+    return retryCall(
+      label,
+      () => this.callOnce(tool, args, options, label),
+      options.retry ?? this.options.retry,
+      options.signal,
+      message => this.log(message)
+    );
+  }
+
+  private async callOnce(tool: string, args: object, options: MCPCallOptions, label: string): Promise<any> {
+    let result: any;
+    try {
+      result = await this.sendRequest('tools/call', { name: tool, arguments: args }, { ...options, label });
+    } catch (error) {
+      if (error instanceof MCPError) {
+        // Invalid params without a code of their own are still a validation failure
+        const data = toolErrorData(error.data);
+        if (!data.code && error.code === JSONRPC_INVALID_PARAMS) data.code = 'validation';
+        throw classifyToolError(label, error.message, data, undefined, error);
+      }
+      throw error;
+    }
 
     // Extract text content from MCP response
     if (result?.content && Array.isArray(result.content)) {
       const textContent = result.content.find((c: any) => c.type === 'text');
+
+      // Tool failures come back as content, not JSON-RPC errors. Throw so
+      // callers see the same typed failure as an HTTP error response.
+      if (result.isError) {
+        const toolError = new MCPToolError(textContent?.text || `Tool call failed: ${tool}`, result.content);
+        throw classifyToolError(label, toolError.message, toolErrorData(result.structuredContent), undefined, toolError);
+      }
+
       if (textContent?.text) {
         try {
           return JSON.parse(textContent.text);
@@ -214,16 +491,14 @@ export class MCPTestClient extends EventEmitter {
   async disconnect(): Promise<void> {
     if (!this.connected && !this.process) return;
 
-    for (const [, pending] of this.pending) {
-      clearTimeout(pending.timeout);
-      pending.reject(new Error('Client disconnected'));
+    for (const id of [...this.pending.keys()]) {
+      this.settle(id)!.reject(new Error('Client disconnected'));
     }
-    this.pending.clear();
 
     this.readline?.close();
     this.readline = null;
 
-    if (this.process) {
+    if (this.process && this.process.exitCode === null && this.process.signalCode === null) {
       this.process.kill('SIGTERM');
       await new Promise<void>((resolve) => {
         const timeout = setTimeout(() => {
@@ -236,8 +511,8 @@ export class MCPTestClient extends EventEmitter {
           resolve();
         });
       });
-      this.process = null;
     }
+    this.process = null;
 
     this.connected = false;
   }
@@ -249,8 +524,11 @@ export class MCPTestClient extends EventEmitter {
 
 /**
  * High-level AgentOS test wrapper
+ * 
+ * Implements the transport-agnostic AgentOSClient (see transport.ts).
  */
-export class AgentOS {
+export class AgentOS implements AgentOSClient {
+  readonly transport = 'mcp' as const;
   private mcp: MCPTestClient;
 
   constructor(mcp: MCPTestClient) {
@@ -263,6 +541,10 @@ export class AgentOS {
     return new AgentOS(mcp);
   }
 
+  get serverLog(): ServerLog {
+    return this.mcp.serverLog;
+  }
+
   async disconnect(): Promise<void> {
     await this.mcp.disconnect();
   }
@@ -270,26 +552,61 @@ export class AgentOS {
   /**
    * Call any MCP tool directly
    */
-  async call(tool: string, args: object = {}): Promise<any> {
-    return this.mcp.call(tool, args);
+  call<P extends string, T extends ToolName<P>>(
+    tool: 'UsePlugin',
+    args: UsePluginArgs<P, T>,
+    options?: CallOptions
+  ): Promise<ToolResult<P, T>>;
+  call<N extends string>(
+    tool: N extends 'UsePlugin' ? never : N,
+    args?: Record<string, unknown>,
+    options?: CallOptions
+  ): Promise<unknown>;
+  async call(tool: string, args: Record<string, unknown> = {}, options?: CallOptions): Promise<unknown> {
+    return this.mcp.call(tool, args, options);
   }
 
-  // Convenience method for UsePlugin
-  usePlugin(plugin: string, tool: string, params?: object, execute?: boolean) {
-    return this.call('UsePlugin', { plugin, tool, params, execute });
+  /**
+   * Call UsePlugin tool (convenience method)
+   */
+  usePlugin<P extends string, T extends ToolName<P>>(
+    plugin: P,
+    tool: T,
+    params?: ToolParams<P, T>,
+    execute?: boolean,
+    options?: CallOptions
+  ): Promise<ToolResult<P, T>>;
+  usePlugin(
+    plugin: string,
+    tool: string,
+    params?: Record<string, unknown>,
+    execute?: boolean,
+    options?: CallOptions
+  ): Promise<unknown> {
+    return this.call('UsePlugin', { plugin, tool, params, execute }, options);
   }
-}
 
-// Global instance for tests (set in setup.ts)
-let globalAos: AgentOS | null = null;
+  /**
+   * Not available over MCP: tool results carry no request_id or activity
+   */
+  async callDetailed(tool: string): Promise<ToolCallResponse> {
+    throw new Error(`callDetailed(${tool}): activity metadata is only available over HTTP`);
+  }
 
-export function getAgentOS(): AgentOS {
-  if (!globalAos) {
-    throw new Error('AgentOS not initialized. Did you run tests with vitest?');
+  /**
+   * Not available over MCP: tool results carry no request_id or activity
+   */
+  usePluginDetailed<P extends string, T extends ToolName<P>>(
+    plugin: P,
+    tool: T,
+    params?: ToolParams<P, T>,
+    execute?: boolean,
+    options?: CallOptions
+  ): Promise<ToolCallResponse & { result: ToolResult<P, T> }>;
+  usePluginDetailed(plugin: string, tool: string): Promise<ToolCallResponse> {
+    return this.callDetailed(`UsePlugin ${plugin} ${tool}`);
   }
-  return globalAos;
 }
 
-export function setGlobalAgentOS(aos: AgentOS | null) {
-  globalAos = aos;
-}
+// Global instance lives in transport.ts; re-exported for existing imports
+export { getAgentOS, setGlobalAgentOS } from './transport';
@@ -0,0 +1,139 @@
+/**
+ * Negative Param Cases
+ *
+ * Calls a tool must reject, generated from its `params` definitions:
+ *
+ *   params:
+ *     query: { type: string, required: true }
+ *     priority: { type: integer }
+ *     sort: { type: enum, values: [hot, new] }
+ *
+ *   → omit query, priority: "not a number", query: ["not", "a", "string"],
+ *     sort: "__not_an_option__"
+ *
+ * Each case fills the other required params with valid values, so the one
+ * bad param is the only reason to reject it.
+ */
+
+import type { ParamDef } from './plugins';
+
+export type ParamCaseKind = 'missing' | 'type' | 'enum';
+
+export interface ParamCase {
+  kind: ParamCaseKind;
+  /** The param the case gets wrong */
+  param: string;
+  /** What the case does, for test names ("omits query", "passes limit as string") */
+  description: string;
+  params: Record<string, unknown>;
+}
+
+/** Out-of-enum value no plugin allows */
+const NOT_AN_OPTION = '__not_an_option__';
+
+/** A value of the wrong type for each param type */
+const WRONG_TYPES: Record<string, unknown> = {
+  string: ['not', 'a', 'string'],
+  integer: 'not a number',
+  number: 'not a number',
+  boolean: 'not a boolean',
+  array: 'not an array',
+  object: 'not an object',
+};
+
+/** Values allowed for a param (`enum`, or `values` of `type: enum`) */
+export function allowedValues(def: ParamDef): unknown[] | undefined {
+  const values = def.enum ?? def.values;
+  return values?.length ? values : undefined;
+}
+
+/** A value the param accepts */
+export function validValue(name: string, def: ParamDef): unknown {
+  const allowed = allowedValues(def);
+  if (allowed) return allowed[0];
+  if (def.default !== undefined) return def.default;
+
+  switch (def.type) {
+    case 'integer':
+    case 'number':
+      return 1;
+    case 'boolean':
+      return true;
+    case 'array':
+      return [];
+    case 'object':
+      return {};
+    default:
+      if (name === 'url') return 'https://example.com';
+      return name === 'id' || name.endsWith('_id') ? 'test-id' : 'test';
+  }
+}
+
+function definitions(params: Record<string, ParamDef> = {}): [string, ParamDef][] {
+  return Object.entries(params).filter(([, def]) => def && typeof def === 'object');
+}
+
+/** Required params (without a default) filled with valid values */
+export function requiredParams(params: Record<string, ParamDef> = {}): Record<string, unknown> {
+  return Object.fromEntries(
+    definitions(params)
+      .filter(([, def]) => def.required && def.default === undefined)
+      .map(([name, def]) => [name, validValue(name, def)])
+  );
+}
+
+/** Every call a tool with these params must reject */
+export function negativeCases(params: Record<string, ParamDef> = {}): ParamCase[] {
+  const valid = requiredParams(params);
+  const cases: ParamCase[] = [];
+
+  for (const [name, def] of definitions(params)) {
+    if (name in valid) {
+      const { [name]: _omitted, ...rest } = valid;
+      cases.push({ kind: 'missing', param: name, description: `omits ${name}`, params: rest });
+    }
+
+    const allowed = allowedValues(def);
+    if (allowed) {
+      cases.push({
+        kind: 'enum',
+        param: name,
+        description: `passes ${name} outside [${allowed.join(', ')}]`,
+        params: { ...valid, [name]: NOT_AN_OPTION },
+      });
+    } else if (def.type && def.type in WRONG_TYPES) {
+      const wrong = WRONG_TYPES[def.type];
+      cases.push({
+        kind: 'type',
+        param: name,
+        description: `passes ${name} as ${Array.isArray(wrong) ? 'array' : typeof wrong} (expects ${def.type})`,
+        params: { ...valid, [name]: wrong },
+      });
+    }
+  }
+
+  return cases;
+}
+
+/** Whether a value matches a param definition (what AgentOS accepts) */
+export function matchesParam(def: ParamDef, value: unknown): boolean {
+  const allowed = allowedValues(def);
+  if (allowed) return allowed.includes(value);
+
+  switch (def.type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return !!value && typeof value === 'object' && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
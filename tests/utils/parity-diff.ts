@@ -0,0 +1,254 @@
+/**
+ * Transport Parity Diff
+ *
+ * Compares the results ParityRecorder saved for HTTP against MCP.
+ *
+ * Both runs call the same live accounts, so beyond the shape (types and
+ * keys) the diff compares values: item counts, ids and every other
+ * primitive, so a title double-encoded or text cut short while unwrapping
+ * MCP content shows up. Ids only one run saw (items it created itself) are
+ * compared by order of first appearance instead, so "created #1" in one run
+ * matches "created #1" in the other. Values known to differ per run aren't
+ * compared: timestamps (`created_at`, `timestamp`) and testId() suffixes in
+ * generated test content. Errors are compared by class and server code;
+ * message wording may differ.
+ *
+ * Kept free of vitest runtime imports so the parity reporter can load it.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { dirname, join, relative } from 'path';
+import { fileURLToPath } from 'url';
+import type { Transport } from './transport';
+
+export const ROOT = join(dirname(fileURLToPath(import.meta.url)), '../..');
+
+/** Default results directory (gitignored) */
+export const PARITY_DIR = join(ROOT, 'tests', '.parity');
+
+export interface ParityEntry {
+  tool: string;
+  arguments: Record<string, unknown>;
+  result?: unknown;
+  /** Error message (shown in the diff, not compared) */
+  error?: string;
+  /** Error class (CredentialMissingError, ValidationError, ...) */
+  errorClass?: string;
+  /** Server error code (validation, upstream_http, ...) */
+  errorCode?: string;
+}
+
+export type ParityFile = Record<string, ParityEntry>;
+
+export interface ParityMismatch {
+  file: string;
+  call: string;
+  /** JSON path of the first difference */
+  path: string;
+  http: string;
+  mcp: string;
+}
+
+/** Describe a value's type for the diff (arrays and objects are walked) */
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/** Keys whose values are ids (id, project_id) */
+const ID_KEY = /(^|_)id$/;
+
+/** Keys whose values differ per run (created_at, updated_at, timestamp) */
+const VOLATILE_KEY = /(^|_)(at|timestamp)$/;
+
+// The unique suffix from testId() (timestamp_random) in test content like
+// "[TEST] my task 1712345678901_ab12cd"; each run generates its own
+const TEST_ID_PATTERN = /(?<!\d)\d{13}_[a-z0-9]+/g;
+
+/** A primitive as compared and shown in the diff, testId() suffixes masked */
+function comparable(value: unknown): string {
+  return JSON.stringify(typeof value === 'string' ? value.replace(TEST_ID_PATTERN, '<testId>') : value);
+}
+
+function truncate(text: string): string {
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
+
+function isIdValue(key: string, value: unknown): value is string | number {
+  return ID_KEY.test(key) && (typeof value === 'string' || typeof value === 'number');
+}
+
+/** Every id value in a result, in order of appearance */
+export function collectIds(value: unknown, key = '', out: string[] = []): string[] {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectIds(item, key, out));
+  } else if (value && typeof value === 'object') {
+    for (const [k, v] of Object.entries(value)) collectIds(v, k, out);
+  } else if (isIdValue(key, value)) {
+    out.push(String(value));
+  }
+  return out;
+}
+
+/**
+ * Maps a run's ids for comparison: ids both runs saw stay as they are,
+ * the others become "created #n" by first appearance
+ */
+export class IdNormalizer {
+  private shared: Set<string>;
+  private local = new Map<string, string>();
+
+  constructor(shared: Set<string>) {
+    this.shared = shared;
+  }
+
+  normalize(id: string | number): string {
+    const key = String(id);
+    if (this.shared.has(key)) return key;
+    let placeholder = this.local.get(key);
+    if (!placeholder) {
+      placeholder = `created #${this.local.size + 1}`;
+      this.local.set(key, placeholder);
+    }
+    return placeholder;
+  }
+}
+
+export type ResultDiff = { path: string; http: string; mcp: string };
+
+/**
+ * Find the first difference between two results (null if none): types,
+ * keys, array lengths, (normalized) ids and other primitive values
+ */
+export function compareResults(
+  http: unknown,
+  mcp: unknown,
+  ids: { http: IdNormalizer; mcp: IdNormalizer },
+  path = '$',
+  key = ''
+): ResultDiff | null {
+  const httpType = typeOf(http);
+  const mcpType = typeOf(mcp);
+  if (httpType !== mcpType) {
+    return { path, http: httpType, mcp: mcpType };
+  }
+
+  if (Array.isArray(http) && Array.isArray(mcp)) {
+    if (http.length !== mcp.length) {
+      return { path, http: `${http.length} items`, mcp: `${mcp.length} items` };
+    }
+    for (let i = 0; i < http.length; i++) {
+      const diff = compareResults(http[i], mcp[i], ids, `${path}[${i}]`, key);
+      if (diff) return diff;
+    }
+    return null;
+  }
+
+  if (httpType === 'object') {
+    const a = http as Record<string, unknown>;
+    const b = mcp as Record<string, unknown>;
+    for (const k of new Set([...Object.keys(a), ...Object.keys(b)])) {
+      if (!(k in a) || !(k in b)) {
+        return {
+          path: `${path}.${k}`,
+          http: k in a ? typeOf(a[k]) : 'missing',
+          mcp: k in b ? typeOf(b[k]) : 'missing',
+        };
+      }
+      const diff = compareResults(a[k], b[k], ids, `${path}.${k}`, k);
+      if (diff) return diff;
+    }
+    return null;
+  }
+
+  if (isIdValue(key, http) && isIdValue(key, mcp)) {
+    const a = ids.http.normalize(http);
+    const b = ids.mcp.normalize(mcp);
+    return a !== b ? { path, http: a, mcp: b } : null;
+  }
+
+  if (VOLATILE_KEY.test(key)) return null;
+  const a = comparable(http);
+  const b = comparable(mcp);
+  return a !== b ? { path, http: truncate(a), mcp: truncate(b) } : null;
+}
+
+/** "CredentialMissingError (credential_missing)" */
+function describeError(entry: ParityEntry): string {
+  if (entry.error === undefined) return 'ok';
+  const kind = `${entry.errorClass ?? 'Error'}${entry.errorCode ? ` (${entry.errorCode})` : ''}`;
+  return `${kind}: ${entry.error}`;
+}
+
+function readResults(dir: string, transport: Transport): Map<string, ParityFile> {
+  const results = new Map<string, ParityFile>();
+  const base = join(dir, transport);
+
+  const walk = (current: string) => {
+    if (!existsSync(current)) return;
+    for (const entry of readdirSync(current, { withFileTypes: true })) {
+      const full = join(current, entry.name);
+      if (entry.isDirectory()) {
+        walk(full);
+      } else if (entry.name.endsWith('.json')) {
+        const file = relative(base, full).replace(/\.json$/, '');
+        results.set(file, JSON.parse(readFileSync(full, 'utf-8')));
+      }
+    }
+  };
+  walk(base);
+
+  return results;
+}
+
+/**
+ * Diff recorded HTTP results against MCP results
+ */
+export function diffParity(dir: string = PARITY_DIR): ParityMismatch[] {
+  const http = readResults(dir, 'http');
+  const mcp = readResults(dir, 'mcp');
+  const mismatches: ParityMismatch[] = [];
+
+  for (const file of new Set([...http.keys(), ...mcp.keys()])) {
+    const httpFile = http.get(file) ?? {};
+    const mcpFile = mcp.get(file) ?? {};
+    const calls = [...new Set([...Object.keys(httpFile), ...Object.keys(mcpFile)])];
+
+    // Ids both runs saw are compared as-is; see IdNormalizer
+    const httpIds = new Set(Object.values(httpFile).flatMap(e => collectIds(e.result)));
+    const shared = new Set(Object.values(mcpFile).flatMap(e => collectIds(e.result)).filter(id => httpIds.has(id)));
+    const ids = { http: new IdNormalizer(shared), mcp: new IdNormalizer(shared) };
+
+    for (const call of calls) {
+      const a = httpFile[call];
+      const b = mcpFile[call];
+
+      if (!a || !b) {
+        mismatches.push({ file, call, path: '$', http: a ? 'called' : 'not called', mcp: b ? 'called' : 'not called' });
+        continue;
+      }
+
+      if (a.error !== undefined || b.error !== undefined) {
+        const same = a.error !== undefined && b.error !== undefined
+          && a.errorClass === b.errorClass && a.errorCode === b.errorCode;
+        if (!same) {
+          mismatches.push({ file, call, path: '$', http: describeError(a), mcp: describeError(b) });
+        }
+        continue;
+      }
+
+      const diff = compareResults(a.result, b.result, ids);
+      if (diff) mismatches.push({ file, call, ...diff });
+    }
+  }
+
+  return mismatches;
+}
+
+/** Format mismatches for console output */
+export function formatMismatches(mismatches: ParityMismatch[]): string {
+  return mismatches
+    .map(m => `  ${m.file} › ${m.call}\n    at ${m.path}: http=${m.http} mcp=${m.mcp}`)
+    .join('\n');
+}
@@ -0,0 +1,31 @@
+/**
+ * Parity Reporter
+ *
+ * Clears old parity results when the run starts, and diffs HTTP against
+ * MCP once every project has finished. Any mismatch fails the run.
+ *
+ * Used by vitest.parity.config.ts.
+ */
+
+import { rmSync } from 'fs';
+import type { Reporter } from 'vitest/reporters';
+import { diffParity, formatMismatches, PARITY_DIR } from './parity-diff';
+
+export default class ParityReporter implements Reporter {
+  onInit() {
+    rmSync(PARITY_DIR, { recursive: true, force: true });
+  }
+
+  onFinished() {
+    const mismatches = diffParity();
+
+    if (mismatches.length === 0) {
+      console.log('\n✅ Transport parity: HTTP and MCP results match\n');
+      return;
+    }
+
+    console.error(`\n❌ Transport parity: ${mismatches.length} mismatch(es) between HTTP and MCP\n`);
+    console.error(formatMismatches(mismatches) + '\n');
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Transport Parity
+ *
+ * Records the unwrapped result of every tool call a test makes, per
+ * transport, then diffs HTTP against MCP. A mismatch means the two
+ * transports disagree on what a plugin returned (usually MCP text-content
+ * unwrapping differing from the plain HTTP result).
+ *
+ * Results are written per test file:
+ *   {dir}/{transport}/{test file path}.json
+ *
+ *   { "todoist > task.list > returns tasks #0": { tool, arguments, result } }
+ *
+ * The diff itself lives in parity-diff.ts (loaded by the reporter, outside
+ * the test workers).
+ *
+ * Run: npm run test:parity
+ */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname, join, relative } from 'path';
+import { expect } from 'vitest';
+import type {
+  AgentOSClient,
+  CallOptions,
+  ToolName,
+  ToolParams,
+  ToolResult,
+  Transport,
+  UsePluginArgs,
+} from './transport';
+import type { ToolCallResponse } from './http-client';
+import { ToolCallError } from './errors';
+import { PARITY_DIR, ParityEntry, ParityFile, ROOT } from './parity-diff';
+
+/**
+ * Wraps a client and records every call for the parity diff
+ */
+export class ParityRecorder implements AgentOSClient {
+  readonly transport: Transport;
+  private client: AgentOSClient;
+  private file: string;
+  private dir: string;
+  private results: ParityFile = {};
+  private counters = new Map<string, number>();
+
+  /**
+   * @param testFile Absolute path of the test file this client serves
+   *   (setup files run once per test file)
+   */
+  constructor(client: AgentOSClient, testFile: string, dir: string = PARITY_DIR) {
+    this.client = client;
+    this.transport = client.transport;
+    this.file = relative(ROOT, testFile);
+    this.dir = dir;
+  }
+
+  call<P extends string, T extends ToolName<P>>(
+    tool: 'UsePlugin',
+    args: UsePluginArgs<P, T>,
+    options?: CallOptions
+  ): Promise<ToolResult<P, T>>;
+  call<N extends string>(
+    tool: N extends 'UsePlugin' ? never : N,
+    args?: Record<string, unknown>,
+    options?: CallOptions
+  ): Promise<unknown>;
+  call(tool: string, args: Record<string, unknown> = {}, options?: CallOptions): Promise<unknown> {
+    return this.track(tool, args, () => this.client.call(tool, args, options), result => result);
+  }
+
+  callDetailed(
+    tool: string,
+    args: Record<string, unknown> = {},
+    options?: CallOptions
+  ): Promise<ToolCallResponse> {
+    return this.track(tool, args, () => this.client.callDetailed(tool, args, options), response => response.result);
+  }
+
+  usePlugin<P extends string, T extends ToolName<P>>(
+    plugin: P,
+    tool: T,
+    params?: ToolParams<P, T>,
+    execute?: boolean,
+    options?: CallOptions
+  ): Promise<ToolResult<P, T>>;
+  usePlugin(
+    plugin: string,
+    tool: string,
+    params?: Record<string, unknown>,
+    execute?: boolean,
+    options?: CallOptions
+  ): Promise<unknown> {
+    return this.call('UsePlugin', { plugin, tool, params, execute }, options);
+  }
+
+  usePluginDetailed<P extends string, T extends ToolName<P>>(
+    plugin: P,
+    tool: T,
+    params?: ToolParams<P, T>,
+    execute?: boolean,
+    options?: CallOptions
+  ): Promise<ToolCallResponse & { result: ToolResult<P, T> }>;
+  usePluginDetailed(
+    plugin: string,
+    tool: string,
+    params?: Record<string, unknown>,
+    execute?: boolean,
+    options?: CallOptions
+  ): Promise<ToolCallResponse> {
+    return this.callDetailed('UsePlugin', { plugin, tool, params, execute }, options);
+  }
+
+  async disconnect(): Promise<void> {
+    this.save();
+    await this.client.disconnect();
+  }
+
+  /** Record a call's unwrapped result or error */
+  private async track<T>(
+    tool: string,
+    args: Record<string, unknown>,
+    call: () => Promise<T>,
+    unwrap: (value: T) => unknown
+  ): Promise<T> {
+    const entry: ParityEntry = { tool, arguments: args };
+    this.entry(entry);
+
+    try {
+      const value = await call();
+      entry.result = unwrap(value);
+      return value;
+    } catch (error) {
+      entry.error = (error as Error).message;
+      entry.errorClass = (error as Error).name;
+      entry.errorCode = error instanceof ToolCallError ? error.code : undefined;
+      throw error;
+    }
+  }
+
+  /** Register an entry under "{test name} #{call index}" */
+  private entry(entry: ParityEntry) {
+    // Vitest prefixes test names with the file path - the file already covers it
+    const test = expect.getState().currentTestName?.replace(/^.*?\.test\.ts > /, '') || '(hook)';
+
+    const index = this.counters.get(test) ?? 0;
+    this.counters.set(test, index + 1);
+    this.results[`${test} #${index}`] = entry;
+  }
+
+  private save() {
+    const path = join(this.dir, this.transport, `${this.file}.json`);
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, JSON.stringify(this.results, null, 2) + '\n');
+  }
+}
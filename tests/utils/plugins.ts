@@ -0,0 +1,149 @@
+/**
+ * Plugin Definitions
+ *
+ * Loads plugin readme.md frontmatter for test infrastructure that needs to
+ * know what plugins declare (operations, params, adapters) without a server.
+ */
+
+import { readdirSync, readFileSync, existsSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { parse as parseYaml } from 'yaml';
+
+export const INTEGRATIONS_ROOT = join(dirname(fileURLToPath(import.meta.url)), '../..');
+export const PLUGINS_DIR = join(INTEGRATIONS_ROOT, 'plugins');
+
+export interface ParamDef {
+  type?: string;
+  required?: boolean;
+  default?: unknown;
+  description?: string;
+  enum?: unknown[];
+  /** Allowed values for `type: enum` */
+  values?: unknown[];
+  /** Array item type */
+  items?: { type?: string };
+}
+
+export interface OperationDef {
+  description?: string;
+  /** Entity name, entity[], or void */
+  returns: string;
+  params?: Record<string, ParamDef>;
+  /** URL patterns this operation opens (see url-router.ts) */
+  handles_urls?: string[];
+  [executor: string]: unknown;
+}
+
+export interface UtilityDef {
+  description?: string;
+  returns?: string | Record<string, string> | null;
+  params?: Record<string, ParamDef>;
+  [executor: string]: unknown;
+}
+
+export interface AdapterDef {
+  terminology?: string;
+  relationships?: Record<string, string | { support: string; mutation?: string }>;
+  mapping?: Record<string, unknown>;
+}
+
+export interface PluginConfig {
+  id: string;
+  name: string;
+  description?: string;
+  tags?: string[];
+  auth?: Record<string, unknown> | null;
+  adapters?: Record<string, AdapterDef>;
+  operations?: Record<string, OperationDef>;
+  utilities?: Record<string, UtilityDef>;
+  /** URL patterns the plugin opens (see url-router.ts) */
+  handles?: { urls?: string[] };
+  [key: string]: unknown;
+}
+
+export interface PluginDefinition {
+  id: string;
+  /** Path relative to plugins/ (e.g. 'todoist') */
+  path: string;
+  /** Absolute plugin directory */
+  dir: string;
+  config: PluginConfig;
+}
+
+export interface PluginLoadError {
+  path: string;
+  error: string;
+}
+
+/** Parse YAML frontmatter from markdown */
+export function parseFrontmatter(content: string): Record<string, unknown> | null {
+  if (!content.startsWith('---')) return null;
+  const endIndex = content.indexOf('\n---', 3);
+  if (endIndex === -1) return null;
+  const yaml = content.slice(4, endIndex);
+  return parseYaml(yaml);
+}
+
+/**
+ * Recursively find plugin directories (ones with readme.md), excluding .needs-work
+ * Returns paths relative to plugins/
+ */
+export function findPluginPaths(dir: string = PLUGINS_DIR, relativePath = ''): string[] {
+  const plugins: string[] = [];
+  if (!existsSync(dir)) return plugins;
+
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue;
+    if (entry.name === '.needs-work') continue;
+    if (entry.name === 'node_modules') continue;
+    if (entry.name === 'tests') continue;
+
+    const fullPath = join(dir, entry.name);
+    const entryRelativePath = relativePath ? `${relativePath}/${entry.name}` : entry.name;
+
+    if (existsSync(join(fullPath, 'readme.md'))) {
+      plugins.push(entryRelativePath);
+    } else {
+      // Category folder, recurse into it
+      plugins.push(...findPluginPaths(fullPath, entryRelativePath));
+    }
+  }
+
+  return plugins;
+}
+
+/**
+ * Load every plugin definition, collecting parse failures instead of throwing
+ */
+export function loadPluginsWithErrors(): { plugins: PluginDefinition[]; errors: PluginLoadError[] } {
+  const plugins: PluginDefinition[] = [];
+  const errors: PluginLoadError[] = [];
+
+  for (const path of findPluginPaths()) {
+    const dir = join(PLUGINS_DIR, path);
+    try {
+      const config = parseFrontmatter(readFileSync(join(dir, 'readme.md'), 'utf-8'));
+      if (!config) {
+        errors.push({ path, error: 'No YAML frontmatter found' });
+        continue;
+      }
+      const id = (config.id as string | undefined) || path.split('/').pop()!;
+      plugins.push({ id, path, dir, config: config as PluginConfig });
+    } catch (e) {
+      errors.push({ path, error: (e as Error).message });
+    }
+  }
+
+  return { plugins, errors };
+}
+
+/** Load every plugin definition that parses */
+export function loadPlugins(): PluginDefinition[] {
+  return loadPluginsWithErrors().plugins;
+}
+
+/** Load a single plugin by id */
+export function loadPlugin(id: string): PluginDefinition | undefined {
+  return loadPlugins().find(p => p.id === id);
+}
@@ -0,0 +1,89 @@
+/**
+ * Server Readiness
+ *
+ * /api/health answers as soon as AgentOS listens, before its plugin
+ * registry has loaded everything under plugins/ (apple-calendar compiles
+ * Swift on first load). Tests starting then fail with "plugin not found".
+ *
+ * waitForPlugins() probes each plugin until AgentOS serves it, within the
+ * startup budget (AGENTOS_STARTUP_TIMEOUT, default 30s). Plugins whose
+ * readme doesn't parse are reported with the parse error instead of
+ * waited for, and plugins still missing when the budget runs out are
+ * reported with AgentOS's last answer. Tests then run either way; only
+ * the affected plugins' suites fail.
+ */
+
+import { loadPluginsWithErrors } from './plugins';
+
+/** Default startup budget in ms (server health plus plugin loading) */
+export const DEFAULT_STARTUP_TIMEOUT = 30000;
+
+/** Delay between readiness polls in ms */
+export const READINESS_POLL_MS = 100;
+
+export interface PluginLoadFailure {
+  /** Plugin id, or its path under plugins/ when the readme didn't parse */
+  plugin: string;
+  error: string;
+}
+
+export interface ReadinessReport {
+  loaded: string[];
+  failed: PluginLoadFailure[];
+}
+
+/** Startup budget from AGENTOS_STARTUP_TIMEOUT (ms), else the default */
+export function startupTimeoutFromEnv(): number {
+  const value = Number(process.env.AGENTOS_STARTUP_TIMEOUT);
+  return value > 0 ? value : DEFAULT_STARTUP_TIMEOUT;
+}
+
+/**
+ * Wait until AgentOS serves every plugin under plugins/
+ * @param probe Resolves once AgentOS can serve the plugin, throws otherwise
+ * @param deadline Epoch ms to stop waiting at
+ */
+export async function waitForPlugins(
+  probe: (plugin: string) => Promise<void>,
+  deadline: number
+): Promise<ReadinessReport> {
+  const { plugins, errors } = loadPluginsWithErrors();
+  const failed: PluginLoadFailure[] = errors.map(e => ({ plugin: `plugins/${e.path}`, error: e.error }));
+
+  const loaded: string[] = [];
+  const lastError = new Map<string, string>();
+  let pending = plugins.map(p => p.id);
+
+  while (pending.length > 0) {
+    const results = await Promise.all(pending.map(async id => {
+      try {
+        await probe(id);
+        loaded.push(id);
+        return null;
+      } catch (e) {
+        lastError.set(id, (e as Error).message);
+        return id;
+      }
+    }));
+    pending = results.filter((id): id is string => id !== null);
+
+    if (pending.length === 0 || Date.now() + READINESS_POLL_MS > deadline) break;
+    await new Promise(resolve => setTimeout(resolve, READINESS_POLL_MS));
+  }
+
+  for (const id of pending) {
+    failed.push({ plugin: id, error: `not loaded by AgentOS: ${lastError.get(id)}` });
+  }
+  return { loaded, failed };
+}
+
+/** Print plugins that failed to load, before any test runs */
+export function reportLoadFailures(report: ReadinessReport): void {
+  if (report.failed.length === 0) return;
+
+  console.warn(`\n⚠ ${report.failed.length} plugin(s) failed to load (${report.loaded.length} loaded):`);
+  for (const failure of report.failed) {
+    console.warn(`  ❌ ${failure.plugin}: ${failure.error}`);
+  }
+  console.warn('');
+}
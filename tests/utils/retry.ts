@@ -0,0 +1,172 @@
+/**
+ * Retry Policy
+ *
+ * Retries with exponential backoff, jitter and a total time budget, and
+ * backs off the way rate-limited upstreams ask: 429/503 responses are
+ * retried after their Retry-After (structured `retry_after` in the error
+ * data) instead of the computed delay.
+ *
+ * Both clients retry transient failures by default (see DEFAULT_RETRY);
+ * pass `retry: false` to a client or call to turn it off:
+ *
+ *   await aos().usePlugin('reddit', 'post.list', { limit: 5 }, false, {
+ *     retry: { retries: 5, budget: 120000 },
+ *   });
+ */
+
+import { CallAbortedError, ToolCallError } from './errors';
+
+export interface RetryOptions {
+  /** Retries after the first attempt (default: 3) */
+  retries?: number;
+  /** First backoff delay in ms (default: 1000) */
+  delay?: number;
+  /** Backoff multiplier (default: 2) */
+  backoff?: number;
+  /** Longest single delay in ms (default: 30000) */
+  maxDelay?: number;
+  /** Random spread applied to each delay, 0-1 (default: 0.2 = ±20%) */
+  jitter?: number;
+  /** Give up once retrying would take longer than this in total, in ms */
+  budget?: number;
+  /** Whether an error is worth retrying (default: every error) */
+  retryIf?: (error: unknown, attempt: number) => boolean;
+  /** Called before each retry */
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/** Statuses that mean "slow down" or "try again shortly" */
+const TRANSIENT_STATUSES = new Set([429, 503]);
+
+/** Policy the clients use unless given another (or retry: false) */
+export const DEFAULT_RETRY: RetryOptions = {
+  retries: 3,
+  delay: 1000,
+  backoff: 2,
+  budget: 60000,
+  retryIf: error => isTransientError(error),
+};
+
+/** Structured data of a failed call (ToolCallError data, else HttpError-style data) */
+function errorData(error: unknown): Record<string, unknown> {
+  if (error instanceof ToolCallError) return error.data;
+  const data = (error as { data?: unknown } | null)?.data;
+  return data && typeof data === 'object' ? data as Record<string, unknown> : {};
+}
+
+/** HTTP status of a failed call: AgentOS's own or the upstream API's */
+function errorStatuses(error: unknown): number[] {
+  const status = (error as { status?: unknown } | null)?.status;
+  const upstream = errorData(error).upstream_status;
+  return [status, upstream].filter((s): s is number => typeof s === 'number');
+}
+
+/**
+ * Rate limited or temporarily unavailable (429/503 from AgentOS or the
+ * upstream API). Client-side aborts and timeouts are never transient.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof CallAbortedError) return false;
+  return errorStatuses(error).some(status => TRANSIENT_STATUSES.has(status));
+}
+
+/**
+ * Delay the server asked for, in ms: `retry_after` in the error data as
+ * seconds or an HTTP date (null if none)
+ */
+export function retryAfterMs(error: unknown, now = Date.now()): number | null {
+  const value = errorData(error).retry_after;
+  if (typeof value === 'number') return Math.max(0, value * 1000);
+  if (typeof value !== 'string' || !value.trim()) return null;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/** Backoff delay before retry number `attempt` (1-based), with jitter */
+export function backoffDelay(attempt: number, options: RetryOptions = {}, random = Math.random): number {
+  const { delay = 1000, backoff = 2, maxDelay = 30000, jitter = 0.2 } = options;
+  const base = Math.min(delay * backoff ** (attempt - 1), maxDelay);
+  const spread = base * jitter * (random() * 2 - 1);
+  return Math.max(0, Math.round(base + spread));
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run fn, retrying failures the policy allows. Throws the last error when
+ * retries or the budget run out, or the error isn't retryable.
+ * @param signal Stops waiting between attempts
+ */
+export async function retry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions = {},
+  signal?: AbortSignal
+): Promise<T> {
+  const { retries = 3, budget = Infinity, retryIf = () => true, onRetry } = options;
+  const started = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt > retries || !retryIf(error, attempt)) throw error;
+
+      // Honor Retry-After; otherwise back off
+      const wait = retryAfterMs(error) ?? backoffDelay(attempt, options);
+      if (Date.now() - started + wait > budget) throw error;
+
+      onRetry?.(error, attempt, wait);
+      await sleep(wait, signal);
+    }
+  }
+}
+
+/**
+ * Run one tool call under a client's retry policy (merged over
+ * DEFAULT_RETRY, so only transient errors retry unless retryIf says
+ * otherwise). An abort while waiting to retry throws CallAbortedError.
+ */
+export async function retryCall<T>(
+  label: string,
+  fn: () => Promise<T>,
+  policy: RetryOptions | false,
+  signal?: AbortSignal,
+  log?: (message: string) => void
+): Promise<T> {
+  if (!policy) return fn();
+
+  const options: RetryOptions = {
+    ...DEFAULT_RETRY,
+    ...policy,
+    onRetry: (error, attempt, delayMs) => {
+      log?.(`${label} failed (${(error as Error).message}), retry ${attempt} in ${delayMs}ms`);
+      policy.onRetry?.(error, attempt, delayMs);
+    },
+  };
+
+  try {
+    return await retry(fn, options, signal);
+  } catch (error) {
+    if (signal?.aborted && !(error instanceof CallAbortedError)) {
+      throw new CallAbortedError(label, 'aborted');
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Server Log Capture
+ *
+ * Buffers what the spawned AgentOS server writes to stdout/stderr, so a
+ * failing test shows what happened on the Rust side (mapping errors like
+ * "Path not found" only appear there) without DEBUG_HTTP.
+ *
+ * Setup marks where each test starts. When a test fails, the lines logged
+ * for its failing request (by request_id), or else everything logged while
+ * it ran, are appended to the failure message. The full log of each test
+ * file is written to the artifacts directory:
+ *
+ *   tests/.artifacts/server-logs/plugins/todoist/tests/todoist.test.ts.log
+ *
+ * A server that fails to start has its log attached to the startup error
+ * and written to server-logs/startup-worker-{N}.log.
+ *
+ * Override the directory with AGENTOS_ARTIFACTS_DIR. Logs are only captured
+ * for servers the clients start; a dev server that was already running
+ * logs to its own terminal.
+ */
+
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname, join, relative } from 'path';
+import type { Readable } from 'stream';
+import { INTEGRATIONS_ROOT } from './plugins';
+import { workerId } from './worker';
+
+/** Default artifacts directory (gitignored) */
+export const ARTIFACTS_DIR = join(INTEGRATIONS_ROOT, 'tests', '.artifacts');
+
+/** Lines kept per server before the oldest are dropped */
+const MAX_LINES = 50000;
+
+/** Most lines attached to one failure */
+const FAILURE_LINES = 50;
+
+export interface ServerLogLine {
+  /** Epoch ms the line arrived */
+  time: number;
+  stream: 'stdout' | 'stderr' | 'test';
+  text: string;
+}
+
+export function artifactsDir(): string {
+  return process.env.AGENTOS_ARTIFACTS_DIR || ARTIFACTS_DIR;
+}
+
+/** request_id a failed call's error carries in its data, if any */
+export function requestIdOf(error: unknown): string | undefined {
+  const id = (error as { data?: { request_id?: unknown } } | null | undefined)?.data?.request_id;
+  return typeof id === 'string' ? id : undefined;
+}
+
+function formatLine(line: ServerLogLine): string {
+  const time = new Date(line.time).toISOString().slice(11, 23);
+  return line.stream === 'test' ? `${time} ── ${line.text}` : `${time} [${line.stream}] ${line.text}`;
+}
+
+export class ServerLog {
+  private lines: ServerLogLine[] = [];
+  private dropped = 0;
+
+  /** Buffer a server output stream line by line */
+  capture(stream: Readable | null | undefined, name: 'stdout' | 'stderr'): void {
+    if (!stream) return;
+    let partial = '';
+    stream.on('data', (data: Buffer) => {
+      const text = partial + data.toString();
+      const lines = text.split('\n');
+      partial = lines.pop()!;
+      for (const line of lines) this.append(name, line);
+    });
+    stream.on('end', () => {
+      if (partial) this.append(name, partial);
+      partial = '';
+    });
+  }
+
+  /** Add a marker line (test boundaries) to the full log */
+  mark(text: string): void {
+    this.append('test', text);
+  }
+
+  get size(): number {
+    return this.lines.length;
+  }
+
+  /** Lines logged since a time (epoch ms) */
+  since(time: number): ServerLogLine[] {
+    return this.lines.filter(line => line.time >= time && line.stream !== 'test');
+  }
+
+  /**
+   * Lines relevant to a failure: those mentioning the request id when any
+   * do, else everything since the test started. Keeps the last `limit`.
+   */
+  slice(since: number, requestId?: string, limit = FAILURE_LINES): ServerLogLine[] {
+    const window = this.since(since);
+    const forRequest = requestId ? window.filter(line => line.text.includes(requestId)) : [];
+    const lines = forRequest.length > 0 ? forRequest : window;
+    return lines.slice(-limit);
+  }
+
+  /** The last lines the server logged (e.g. for a failed startup) */
+  tail(limit = FAILURE_LINES): ServerLogLine[] {
+    return this.since(0).slice(-limit);
+  }
+
+  /** Write the full log to a file (skipped when nothing was captured) */
+  write(path: string): boolean {
+    if (this.lines.every(line => line.stream === 'test')) return false;
+
+    const header = this.dropped > 0 ? [`(${this.dropped} earlier lines dropped)`] : [];
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, [...header, ...this.lines.map(formatLine), ''].join('\n'));
+    return true;
+  }
+
+  /** Artifact path for a test file's server log */
+  static artifactPath(testFile: string): string {
+    const name = relative(INTEGRATIONS_ROOT, testFile).replace(/^(\.\.\/)+/, '');
+    return join(artifactsDir(), 'server-logs', `${name}.log`);
+  }
+
+  /**
+   * Artifact path for the log of a server that failed to start. Startup
+   * happens while the test file is collected, before its path is known.
+   */
+  static startupArtifactPath(): string {
+    return join(artifactsDir(), 'server-logs', `startup-worker-${workerId()}.log`);
+  }
+
+  /** Failure message section for a slice of lines */
+  static format(lines: ServerLogLine[]): string {
+    return ['', '── AgentOS server log ──', ...lines.map(formatLine)].join('\n');
+  }
+
+  private append(stream: ServerLogLine['stream'], text: string) {
+    const line = text.replace(/\r$/, '');
+    if (!line.trim()) return;
+    this.lines.push({ time: Date.now(), stream, text: line });
+    if (this.lines.length > MAX_LINES) {
+      this.lines.shift();
+      this.dropped++;
+    }
+  }
+}
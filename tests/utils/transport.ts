@@ -0,0 +1,129 @@
+/**
+ * Transport-Agnostic Client Interface
+ *
+ * Plugin tests talk to AgentOS through this interface, so the same suite
+ * runs over HTTP (http-client.ts) or MCP stdio (mcp-client.ts).
+ *
+ * Both transports return the unwrapped result: plain JSON over HTTP, and
+ * the parsed text content over MCP.
+ *
+ * Select with AGENTOS_TRANSPORT=http|mcp (default: http).
+ */
+
+import type { ToolCallResponse } from './http-client';
+import type { RetryOptions } from './retry';
+import type { PluginTools } from '../types/plugins';
+
+export type Transport = 'http' | 'mcp';
+
+/** Per-call controls, supported by both transports */
+export interface CallOptions {
+  /** Abandon the call when this signal aborts (CallAbortedError, reason 'aborted') */
+  signal?: AbortSignal;
+  /** Per-call timeout in ms, overriding the client default (reason 'timeout') */
+  timeout?: number;
+  /** Retry policy for this call, overriding the client's (false = no retries) */
+  retry?: RetryOptions | false;
+}
+
+// =============================================================================
+// Typed tool calls (types generated from plugin frontmatter)
+// =============================================================================
+
+type PluginId = keyof PluginTools;
+
+/** Tool names for a known plugin (any string for unknown plugins) */
+export type ToolName<P extends string> = P extends PluginId ? keyof PluginTools[P] & string : string;
+
+/** Params for a plugin tool */
+export type ToolParams<P extends string, T extends string> = P extends PluginId
+  ? T extends keyof PluginTools[P]
+    ? PluginTools[P][T] extends { params: infer Params } ? Params : never
+    : never
+  : Record<string, unknown>;
+
+/** Result of a plugin tool (unknown when the plugin isn't known at compile time) */
+export type ToolResult<P extends string, T extends string> = P extends PluginId
+  ? T extends keyof PluginTools[P]
+    ? PluginTools[P][T] extends { returns: infer Returns } ? Returns : unknown
+    : unknown
+  : unknown;
+
+/** UsePlugin arguments; params are required when the tool has required params */
+export type UsePluginArgs<P extends string, T extends string> = {
+  plugin: P;
+  tool: T;
+  execute?: boolean;
+} & ({} extends ToolParams<P, T>
+  ? { params?: ToolParams<P, T> }
+  : { params: ToolParams<P, T> });
+
+/**
+ * UsePlugin calls are typed from tests/types/plugins.d.ts (see
+ * tests/plugins/scripts/generate-types.ts); calls to unknown plugins and
+ * other tools take plain records and return unknown.
+ */
+export interface AgentOSClient {
+  readonly transport: Transport;
+
+  /** Call any tool directly, returning the unwrapped result */
+  call<P extends string, T extends ToolName<P>>(
+    tool: 'UsePlugin',
+    args: UsePluginArgs<P, T>,
+    options?: CallOptions
+  ): Promise<ToolResult<P, T>>;
+  call<N extends string>(
+    tool: N extends 'UsePlugin' ? never : N,
+    args?: Record<string, unknown>,
+    options?: CallOptions
+  ): Promise<unknown>;
+
+  /** Call UsePlugin (convenience method) */
+  usePlugin<P extends string, T extends ToolName<P>>(
+    plugin: P,
+    tool: T,
+    params?: ToolParams<P, T>,
+    execute?: boolean,
+    options?: CallOptions
+  ): Promise<ToolResult<P, T>>;
+
+  /**
+   * Call any tool, returning request_id and activity with the result
+   * (HTTP only - throws over MCP)
+   */
+  callDetailed(tool: string, args?: Record<string, unknown>, options?: CallOptions): Promise<ToolCallResponse>;
+
+  /** Call UsePlugin, returning request_id and activity (HTTP only) */
+  usePluginDetailed<P extends string, T extends ToolName<P>>(
+    plugin: P,
+    tool: T,
+    params?: ToolParams<P, T>,
+    execute?: boolean,
+    options?: CallOptions
+  ): Promise<ToolCallResponse & { result: ToolResult<P, T> }>;
+
+  disconnect(): Promise<void>;
+}
+
+/** Read the transport from AGENTOS_TRANSPORT (default: http) */
+export function transportFromEnv(): Transport {
+  const transport = process.env.AGENTOS_TRANSPORT || 'http';
+  if (transport !== 'http' && transport !== 'mcp') {
+    throw new Error(`Invalid AGENTOS_TRANSPORT: '${transport}' (expected 'http' or 'mcp')`);
+  }
+  return transport;
+}
+
+// Global instance for tests (set in setup.ts)
+let globalAos: AgentOSClient | null = null;
+
+export function getAgentOS(): AgentOSClient {
+  if (!globalAos) {
+    throw new Error('AgentOS not initialized. Did you run tests with vitest?');
+  }
+  return globalAos;
+}
+
+export function setGlobalAgentOS(aos: AgentOSClient | null): void {
+  globalAos = aos;
+}
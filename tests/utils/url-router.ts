@@ -0,0 +1,218 @@
+/**
+ * URL Routing
+ *
+ * Which plugin operation opens a URL. Plugins claim URLs with patterns,
+ * for the whole plugin (`handles.urls`) or per operation (`handles_urls`):
+ *
+ *   video.get:
+ *     handles_urls: ["youtube.com/*", "youtu.be/*"]
+ *
+ * Patterns match the URL's host and path (no scheme, `www.`, query or
+ * fragment); `*` matches any characters within a path segment. Candidates
+ * rank by specificity (the literal characters a pattern pins down), so
+ * `youtube.com/@*` (video.list) outranks `youtube.com/*` (video.get). Plugins that claim no URLs but
+ * read any (curl's `webpage.read`, with a required `url` param) rank last
+ * as fallbacks.
+ *
+ *   new UrlRouter().resolve('https://youtu.be/dQw4w9WgXcQ')
+ *   → [{ plugin: 'youtube', operation: 'video.get', params: { url },
+ *        wildcards: ['dQw4w9WgXcQ'] }, ...fallbacks]
+ *
+ * The operation gets the whole URL in its url param; `wildcards` holds what
+ * each `*` matched (the video id, the channel handle).
+ *
+ * findOverlaps() flags patterns of different plugins that can match the
+ * same URL and patterns of one plugin that tie (conflicts), and each
+ * declared pattern against the other plugins' fallbacks it competes with
+ * (curl and firecrawl read youtube.com URLs too).
+ */
+
+import { loadPlugins, OperationDef, PluginDefinition } from './plugins';
+
+/** Where a route comes from */
+export type RouteSource = 'handles' | 'handles_urls' | 'fallback';
+
+export interface UrlRoute {
+  plugin: string;
+  /** Operation that opens the URL (null: the plugin claims it, no operation takes a url) */
+  operation: string | null;
+  /** Pattern as declared ('*' for fallbacks, which match any URL) */
+  pattern: string;
+  source: RouteSource;
+  /** Literal characters in the pattern; more wins */
+  specificity: number;
+  /** Param the URL is passed in */
+  param?: string;
+}
+
+export interface UrlCandidate extends UrlRoute {
+  /** Params to call the operation with */
+  params: Record<string, string>;
+  /** What each `*` in the pattern matched, in order (none for fallbacks) */
+  wildcards: string[];
+}
+
+export interface RouteOverlap {
+  a: UrlRoute;
+  b: UrlRoute;
+  /** conflict: declared patterns that compete; fallback: b is a fallback that a must outrank */
+  kind: 'conflict' | 'fallback';
+}
+
+/** Host and path of a URL or pattern (https://www.youtube.com/x?y=1 → youtube.com/x) */
+export function normalizeUrl(url: string): string {
+  const bare = url.trim().replace(/^[a-z][a-z0-9+.-]*:\/\//i, '').replace(/^www\./i, '').replace(/[?#].*$/, '');
+  const slash = bare.indexOf('/');
+  const host = slash < 0 ? bare : bare.slice(0, slash);
+  return host.toLowerCase() + (slash < 0 ? '' : bare.slice(slash));
+}
+
+function specificity(pattern: string): number {
+  return normalizeUrl(pattern).replace(/\*/g, '').length;
+}
+
+function patternRegex(pattern: string): RegExp {
+  const source = normalizeUrl(pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('([^/]*)');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Whether two patterns match some URL in common. Walks both at once: a `*`
+ * either ends or swallows the other pattern's next character (never `/`).
+ */
+export function patternsOverlap(a: string, b: string): boolean {
+  const p = normalizeUrl(a);
+  const q = normalizeUrl(b);
+  const memo = new Map<string, boolean>();
+
+  const overlap = (i: number, j: number): boolean => {
+    if (i === p.length && j === q.length) return true;
+    const key = `${i},${j}`;
+    if (memo.has(key)) return memo.get(key)!;
+
+    let result = false;
+    if (p[i] === '*') result = overlap(i + 1, j) || (j < q.length && q[j] !== '/' && overlap(i, j + 1));
+    if (!result && q[j] === '*') result = overlap(i, j + 1) || (i < p.length && p[i] !== '/' && overlap(i + 1, j));
+    if (!result && i < p.length && j < q.length && p[i] !== '*' && q[j] !== '*') {
+      result = p[i] === q[j] && overlap(i + 1, j + 1);
+    }
+
+    memo.set(key, result);
+    return result;
+  };
+
+  return overlap(0, 0);
+}
+
+/** Param an operation takes the URL in: `url`, else its first required string param */
+function urlParam(def: OperationDef): string | undefined {
+  const params = def.params || {};
+  if (params.url) return 'url';
+  return Object.entries(params).find(([, p]) => p?.required && (p.type ?? 'string') === 'string')?.[0];
+}
+
+function route(plugin: string, operation: string | null, pattern: string, source: RouteSource, param?: string): UrlRoute {
+  return {
+    plugin,
+    operation,
+    pattern,
+    source,
+    specificity: source === 'fallback' ? 0 : specificity(pattern),
+    ...(param && { param }),
+  };
+}
+
+/** Routes a plugin declares, or its fallbacks when it declares none */
+function pluginRoutes(plugin: PluginDefinition): UrlRoute[] {
+  const operations = Object.entries(plugin.config.operations || {});
+  const handles = plugin.config.handles?.urls || [];
+  const routes: UrlRoute[] = [];
+
+  // Plugin-wide patterns open with every operation that takes a url
+  const takingUrls = operations.filter(([, def]) => def.params?.url);
+  for (const pattern of handles) {
+    if (takingUrls.length === 0) routes.push(route(plugin.id, null, pattern, 'handles'));
+    for (const [name, def] of takingUrls) routes.push(route(plugin.id, name, pattern, 'handles', urlParam(def)));
+  }
+
+  for (const [name, def] of operations) {
+    for (const pattern of def.handles_urls || []) {
+      routes.push(route(plugin.id, name, pattern, 'handles_urls', urlParam(def)));
+    }
+  }
+
+  if (routes.length > 0) return routes;
+  return takingUrls
+    .filter(([, def]) => def.params!.url.required)
+    .map(([name]) => route(plugin.id, name, '*', 'fallback', 'url'));
+}
+
+/** Every plugin's routes, by plugin id */
+export function compileRoutes(plugins: PluginDefinition[] = loadPlugins()): UrlRoute[] {
+  return [...plugins].sort((a, b) => a.id.localeCompare(b.id)).flatMap(pluginRoutes);
+}
+
+const SOURCE_RANK: Record<RouteSource, number> = { handles_urls: 0, handles: 1, fallback: 2 };
+
+export class UrlRouter {
+  readonly routes: UrlRoute[];
+  private compiled: { route: UrlRoute; regex: RegExp }[];
+
+  constructor(routes: UrlRoute[] = compileRoutes()) {
+    this.routes = routes;
+    // Fallbacks read any URL, whatever its depth
+    this.compiled = routes.map(r => ({ route: r, regex: r.source === 'fallback' ? /^/ : patternRegex(r.pattern) }));
+  }
+
+  /** Candidates for a URL, best first (same-rank candidates keep plugin order) */
+  resolve(url: string): UrlCandidate[] {
+    const normalized = normalizeUrl(url);
+    return this.compiled
+      .map(({ route, regex }) => ({ route, match: regex.exec(normalized) }))
+      .filter(({ match }) => match !== null)
+      .map(({ route, match }) => ({
+        ...route,
+        params: route.param ? { [route.param]: url } : {},
+        wildcards: match!.slice(1),
+      }))
+      .sort((a, b) => b.specificity - a.specificity || SOURCE_RANK[a.source] - SOURCE_RANK[b.source]);
+  }
+}
+
+/**
+ * Routes that compete for the same URLs. Conflicts: declared patterns of
+ * different plugins, and two of one plugin's operations with the same
+ * specificity (which one wins would depend on declaration order). Fallback
+ * overlaps: every declared pattern against each other plugin's fallback,
+ * which reads any URL; the declared one has to rank first.
+ */
+export function findOverlaps(routes: UrlRoute[] = compileRoutes()): RouteOverlap[] {
+  const declared = routes.filter(r => r.source !== 'fallback');
+  const fallbacks = routes.filter(r => r.source === 'fallback');
+  const overlaps: RouteOverlap[] = [];
+
+  for (let i = 0; i < declared.length; i++) {
+    for (let j = i + 1; j < declared.length; j++) {
+      const [a, b] = [declared[i], declared[j]];
+      // Plugin-wide patterns (handles.urls) route to all of its url operations on purpose
+      const tie = a.operation !== b.operation && a.specificity === b.specificity && a.source !== 'handles';
+      const competing = a.plugin !== b.plugin || tie;
+      if (competing && patternsOverlap(a.pattern, b.pattern)) overlaps.push({ a, b, kind: 'conflict' });
+    }
+  }
+
+  for (const a of declared) {
+    for (const b of fallbacks) {
+      if (a.plugin !== b.plugin) overlaps.push({ a, b, kind: 'fallback' });
+    }
+  }
+  return overlaps;
+}
+
+/** "youtube video.get (youtube.com/*)" */
+export function describeRoute(route: UrlRoute): string {
+  return `${route.plugin}${route.operation ? ` ${route.operation}` : ''} (${route.pattern})`;
+}
@@ -0,0 +1,44 @@
+/**
+ * Per-Worker Isolation
+ *
+ * Vitest runs test files in parallel forks. Each fork gets its own AgentOS
+ * server port, so servers started by different workers never collide:
+ *
+ *   worker 1 → port 3457
+ *   worker 2 → port 3458
+ *
+ * Servers share the usual AgentOS data environment (AGENTOS_ENV, if set),
+ * so credentials and state stored there are visible to every worker. Set
+ * AGENTOS_ISOLATE=1 to give each worker its own, empty one instead
+ * (AGENTOS_ENV=test-1, test-2, ...); only credentials from the environment
+ * or tests/.credentials.env reach those (see credentials.ts).
+ *
+ * Projects that run side by side (the parity workspace runs HTTP and MCP
+ * at once, with the same pool ids) set AGENTOS_WORKER_OFFSET so their
+ * workers get distinct ports and environments.
+ *
+ * Files within one worker run one after another and reuse its port.
+ */
+
+/** First test port (the dev server uses 3456) */
+export const BASE_TEST_PORT = 3457;
+
+/** This worker's id (1-based; 1 outside vitest), after the project's offset */
+export function workerId(): number {
+  const offset = Number(process.env.AGENTOS_WORKER_OFFSET) || 0;
+  return (Number(process.env.VITEST_POOL_ID) || 1) + offset;
+}
+
+/** Port for this worker's AgentOS server */
+export function workerPort(): number {
+  return BASE_TEST_PORT + workerId() - 1;
+}
+
+/**
+ * AGENTOS_ENV for this worker's AgentOS: its own data directory with
+ * AGENTOS_ISOLATE=1, else the inherited one (undefined = AgentOS default)
+ */
+export function workerEnv(): string | undefined {
+  if (process.env.AGENTOS_ISOLATE === '1') return `test-${workerId()}`;
+  return process.env.AGENTOS_ENV;
+}
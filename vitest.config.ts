@@ -17,6 +17,9 @@ export default defineConfig({
     
     // Setup file runs in same process as tests
     setupFiles: ['./tests/setup.ts'],
+
+    // Runs once per run: which plugins have credentials stored in AgentOS
+    globalSetup: ['./tests/global-setup.ts'],
     
     // Test environment
     environment: 'node',
@@ -24,13 +27,10 @@ export default defineConfig({
     // Timeout for slow operations
     testTimeout: 30000,
     
-    // Run tests sequentially (MCP connection is shared)
+    // Test files run in parallel forks. Each fork starts its own AgentOS
+    // on its own port and AGENTOS_ENV (see tests/utils/worker.ts).
+    // Limit with --poolOptions.forks.maxForks=N
     pool: 'forks',
-    poolOptions: {
-      forks: {
-        singleFork: true,  // All tests in one process to share MCP connection
-      },
-    },
     
     // Reporter
     reporter: ['verbose'],
@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // Runs plugin suites over HTTP and MCP (see vitest.parity.workspace.ts)
+    workspace: './vitest.parity.workspace.ts',
+
+    // Diffs the two transports' results after all projects finish
+    reporters: ['verbose', './tests/utils/parity-reporter.ts'],
+  },
+});
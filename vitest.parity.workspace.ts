@@ -0,0 +1,26 @@
+import { defineWorkspace } from 'vitest/config';
+import type { Transport } from './tests/utils/transport';
+
+// Every plugin suite, once per transport. Results are recorded by
+// ParityRecorder and diffed by the parity reporter (vitest.parity.config.ts).
+// Both projects run at once with the same pool ids, so each gets its own
+// worker offset: distinct server ports and (with AGENTOS_ISOLATE) envs.
+const project = (transport: Transport, workerOffset: number) => ({
+  test: {
+    name: transport,
+    include: ['plugins/*/tests/*.test.ts'],
+    exclude: ['plugins/.needs-work/**', 'node_modules/**'],
+    setupFiles: ['./tests/setup.ts'],
+    globalSetup: ['./tests/global-setup.ts'],
+    environment: 'node',
+    testTimeout: 30000,
+    env: {
+      AGENTOS_TRANSPORT: transport,
+      AGENTOS_PARITY: '1',
+      AGENTOS_WORKER_OFFSET: String(workerOffset),
+    },
+    pool: 'forks' as const,
+  },
+});
+
+export default defineWorkspace([project('http', 0), project('mcp', 100)]);
@@ -1,17 +1,20 @@
 import { defineConfig } from 'vitest/config';
 
 /**
- * Vitest config for schema-only tests
- * These tests don't require MCP connection - they just validate YAML files
+ * Vitest config for static tests
+ * These tests don't require an AgentOS server - they check YAML files and
+ * what can be derived from them (URL routes, mapping snapshots)
  */
 export default defineConfig({
   test: {
     include: [
       'tests/plugins/schema.test.ts',
       'tests/entities/schema.test.ts',
+      'tests/plugins/routing.test.ts',
+      'tests/plugins/snapshots.test.ts',
     ],
     
-    // No setup file - schema tests don't need MCP
+    // No setup file - static tests don't start a server
     setupFiles: [],
     
     environment: 'node',
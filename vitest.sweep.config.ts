@@ -0,0 +1,23 @@
+import { defineConfig } from 'vitest/config';
+
+/**
+ * Vitest config for the test data sweeper (tests/sweep.ts)
+ * Deletes [TEST] leftovers from crashed runs - not part of npm test
+ */
+export default defineConfig({
+  test: {
+    include: ['tests/sweep.ts'],
+    
+    setupFiles: ['./tests/setup.ts'],
+    globalSetup: ['./tests/global-setup.ts'],
+    
+    environment: 'node',
+    testTimeout: 120000,
+    
+    // One server, one plugin at a time
+    pool: 'forks',
+    poolOptions: { forks: { singleFork: true } },
+    
+    reporter: ['verbose'],
+  },
+});